@@ -0,0 +1,73 @@
+import { TSESTree, type TSESLint } from '@typescript-eslint/utils';
+
+// Hooks relying on state, effects or the browser, which React and Next.js only
+// provide to Client Components
+export const CLIENT_HOOKS = new Set([
+  'useState',
+  'useReducer',
+  'useEffect',
+  'useLayoutEffect',
+  'useInsertionEffect',
+  'useEffectEvent',
+  'useRef',
+  'useContext',
+  'useImperativeHandle',
+  'useSyncExternalStore',
+  'useTransition',
+  'useDeferredValue',
+  'useOptimistic',
+  'useActionState',
+  'useFormState',
+  'useFormStatus',
+  'useRouter',
+  'usePathname',
+  'useSearchParams',
+  'useParams',
+  'useSelectedLayoutSegment',
+  'useSelectedLayoutSegments',
+]);
+
+const BROWSER_GLOBALS = [
+  'window',
+  'document',
+  'navigator',
+  'localStorage',
+  'sessionStorage',
+];
+
+/**
+ * References to browser globals, such as `window`, that are not shadowed in
+ * `globalScope`. `typeof window` checks are excepted as they guard code shared
+ * by the server and the client.
+ */
+export function getBrowserGlobalReferences(
+  globalScope: TSESLint.Scope.Scope
+): (TSESTree.Identifier | TSESTree.JSXIdentifier)[] {
+  return BROWSER_GLOBALS.flatMap(name => {
+    const variable = globalScope.set.get(name);
+    const references = [
+      ...(variable && variable.defs.length === 0 ? variable.references : []),
+      ...globalScope.through.filter(
+        reference => reference.identifier.name === name
+      ),
+    ];
+    return references
+      .map(({ identifier }) => identifier)
+      .filter(
+        identifier =>
+          identifier.parent?.type !== 'UnaryExpression' ||
+          identifier.parent.operator !== 'typeof'
+      );
+  });
+}
+
+/**
+ * Whether `node` passes an event handler such as `onClick={() => {}}`.
+ */
+export function isEventHandlerAttribute(node: TSESTree.JSXAttribute): boolean {
+  return (
+    node.name.type === 'JSXIdentifier' &&
+    /^on[A-Z]/.test(node.name.name) &&
+    node.value?.type === 'JSXExpressionContainer'
+  );
+}
@@ -0,0 +1,109 @@
+import { TSESTree, type TSESLint } from '@typescript-eslint/utils';
+import ts from 'typescript';
+
+/**
+ * Statements of the directive prologue of `body`, the statements of a program
+ * or of a function body, e.g. `'use strict'; 'use client';`.
+ */
+export function getDirectives(
+  body: readonly TSESTree.ProgramStatement[]
+): TSESTree.ExpressionStatement[] {
+  const directives: TSESTree.ExpressionStatement[] = [];
+  for (const statement of body) {
+    if (
+      statement.type !== 'ExpressionStatement' ||
+      statement.directive === undefined
+    ) {
+      break;
+    }
+    directives.push(statement);
+  }
+  return directives;
+}
+
+/**
+ * Whether the directive prologue of `node`, a program or a function body,
+ * contains `directive`, e.g. `'use client'`.
+ */
+export function hasDirective(
+  node: TSESTree.Program | TSESTree.BlockStatement,
+  directive: string
+): boolean {
+  return getDirectives(node.body).some(
+    statement =>
+      statement.expression.type === 'Literal' &&
+      statement.expression.value === directive
+  );
+}
+
+/**
+ * Fix removing the directive `statement` and the blank space following it.
+ */
+export function removeDirective(
+  fixer: TSESLint.RuleFixer,
+  statement: TSESTree.ExpressionStatement,
+  sourceCode: Readonly<TSESLint.SourceCode>
+): TSESLint.RuleFix {
+  return fixer.removeRange([
+    statement.range[0],
+    sourceCode.getTokenAfter(statement, { includeComments: true })?.range[0] ??
+      statement.range[1],
+  ]);
+}
+
+/**
+ * Same as `hasDirective`, for the TypeScript AST of a source file or a function
+ * body.
+ */
+export function hasTsDirective(
+  node: ts.SourceFile | ts.Block,
+  directive: string
+): boolean {
+  for (const statement of node.statements) {
+    if (
+      !ts.isExpressionStatement(statement) ||
+      !ts.isStringLiteral(statement.expression)
+    ) {
+      break;
+    }
+    if (statement.expression.text === directive) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether `declaration` is a Server Action: a function declared at the top
+ * level of a `'use server'` module or whose body starts with `'use server'`.
+ */
+export function isServerActionDeclaration(declaration: ts.Node): boolean {
+  if (
+    !ts.isFunctionDeclaration(declaration) &&
+    !ts.isFunctionExpression(declaration) &&
+    !ts.isArrowFunction(declaration) &&
+    !ts.isMethodDeclaration(declaration)
+  ) {
+    return false;
+  }
+
+  return (
+    (isModuleLevel(declaration) &&
+      hasTsDirective(declaration.getSourceFile(), 'use server')) ||
+    (declaration.body !== undefined &&
+      ts.isBlock(declaration.body) &&
+      hasTsDirective(declaration.body, 'use server'))
+  );
+}
+
+/**
+ * Whether the function `node` is declared at the top level of its module, e.g.
+ * `function save() {}`, `const save = async () => {}` or
+ * `export default async function () {}`.
+ */
+function isModuleLevel(node: ts.Node): boolean {
+  const parent = ts.isVariableDeclaration(node.parent)
+    ? node.parent.parent.parent
+    : node.parent;
+  return ts.isSourceFile(parent) || ts.isSourceFile(parent.parent);
+}
@@ -0,0 +1,366 @@
+import {
+  TSESTree,
+  type ParserServicesWithTypeInformation,
+} from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { isServerActionDeclaration } from './directives';
+import { isReactElementType, isTypeReference } from './serializability';
+
+export interface ExportedValue {
+  // Exported name, `default` for the default export
+  name: string;
+  node: TSESTree.Node;
+}
+
+/**
+ * Values exported by `node`, as found syntactically: declarations, e.g.
+ * `export function Component() {}`, and the initializers of the top-level
+ * variables exported by name, e.g. `export { Component }`.
+ */
+export function getExportedValues(
+  node: TSESTree.ExportDefaultDeclaration | TSESTree.ExportNamedDeclaration,
+  program: TSESTree.Program
+): ExportedValue[] {
+  if (node.type === 'ExportDefaultDeclaration') {
+    if (node.declaration.type !== 'Identifier') {
+      return [{ name: 'default', node: node.declaration }];
+    }
+
+    // Handle: const Comp = () => {}; export default Comp;
+    const init = findVariableDeclaration(node.declaration.name, program)?.init;
+    return init ? [{ name: 'default', node: init }] : [];
+  }
+
+  // Handle: export function Component() {} or export class Component {}
+  if (
+    node.declaration?.type === 'FunctionDeclaration' ||
+    node.declaration?.type === 'ClassDeclaration'
+  ) {
+    return [
+      { name: node.declaration.id?.name ?? 'default', node: node.declaration },
+    ];
+  }
+
+  // Handle: export const Component = () => {} or export const Component = function() {}
+  if (node.declaration?.type === 'VariableDeclaration') {
+    return node.declaration.declarations.flatMap(declarator =>
+      declarator.id.type === 'Identifier' && declarator.init
+        ? [{ name: declarator.id.name, node: declarator.init }]
+        : []
+    );
+  }
+
+  // Handle: export { Component }
+  return node.specifiers.flatMap(specifier => {
+    if (specifier.type !== 'ExportSpecifier' || node.source) {
+      return [];
+    }
+    const init =
+      specifier.local.type === 'Identifier'
+        ? findVariableDeclaration(specifier.local.name, program)?.init
+        : undefined;
+    const name =
+      specifier.exported.type === 'Identifier'
+        ? specifier.exported.name
+        : specifier.exported.value;
+    return init ? [{ name, node: init }] : [];
+  });
+}
+
+// React classes that class components extend
+export const CLASS_COMPONENT_BASES = new Set(['Component', 'PureComponent']);
+
+// Wrappers that keep the props of the component they wrap
+export const TRANSPARENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+
+/**
+ * The component wrapped by `node` when it calls one of the
+ * `TRANSPARENT_WRAPPERS`, e.g. the function of `memo(function Component() {})`
+ * or the initializer of `Component` in `forwardRef(Component)`.
+ */
+export function getWrappedComponent(
+  node: TSESTree.CallExpression,
+  program: TSESTree.Program
+): TSESTree.Node | undefined {
+  const calleeName = getCalleeName(node);
+  if (!calleeName || !TRANSPARENT_WRAPPERS.has(calleeName)) {
+    return undefined;
+  }
+
+  const [wrapped] = node.arguments;
+  return wrapped?.type === 'Identifier'
+    ? (findVariableDeclaration(wrapped.name, program)?.init ?? undefined)
+    : wrapped;
+}
+
+export function getCalleeName(node: TSESTree.CallExpression): string | null {
+  // Handle: memo(...) and React.memo(...)
+  if (node.callee.type === 'Identifier') {
+    return node.callee.name;
+  }
+  if (
+    node.callee.type === 'MemberExpression' &&
+    !node.callee.computed &&
+    node.callee.property.type === 'Identifier'
+  ) {
+    return node.callee.property.name;
+  }
+  return null;
+}
+
+function findVariableDeclaration(
+  name: string,
+  program: TSESTree.Program
+): TSESTree.VariableDeclarator | null {
+  for (const statement of program.body) {
+    if (statement.type === 'VariableDeclaration') {
+      for (const declarator of statement.declarations) {
+        if (
+          declarator.id.type === 'Identifier' &&
+          declarator.id.name === name
+        ) {
+          return declarator;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export interface ModuleExport {
+  // Exported name, `default` for the default export
+  name: string;
+  // Exported value, resolved through aliases
+  symbol: ts.Symbol;
+  type: ts.Type;
+  // Declaration of the export in the linted file, if any
+  declaration: ts.Declaration | undefined;
+  // The `export * from '...'` declaration through which a value declared in
+  // another module is exported
+  exportAll: TSESTree.ExportAllDeclaration | undefined;
+}
+
+/**
+ * Every value exported by the module of `program`, as found by the type
+ * checker. Unlike a syntactic search, this covers any way of declaring and
+ * exporting a value, including `export * from '...'`.
+ */
+export function getModuleExports(
+  program: TSESTree.Program,
+  services: ParserServicesWithTypeInformation
+): ModuleExport[] {
+  const checker = services.program.getTypeChecker();
+  const sourceFile = services.esTreeNodeToTSNodeMap.get(program);
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) {
+    return [];
+  }
+
+  const moduleExports: ModuleExport[] = [];
+  for (const exportSymbol of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol =
+      exportSymbol.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exportSymbol)
+        : exportSymbol;
+    if (!(symbol.flags & ts.SymbolFlags.Value)) {
+      continue;
+    }
+
+    const declaration = [
+      ...(symbol.getDeclarations() ?? []),
+      ...(exportSymbol.getDeclarations() ?? []),
+    ].find(declaration => declaration.getSourceFile() === sourceFile);
+
+    // Look through casts such as `export default Component as any`
+    const type =
+      declaration && ts.isExportAssignment(declaration)
+        ? checker.getTypeAtLocation(skipTypeAssertions(declaration.expression))
+        : checker.getTypeOfSymbolAtLocation(symbol, sourceFile);
+
+    moduleExports.push({
+      name: exportSymbol.getName(),
+      symbol,
+      type,
+      declaration,
+      exportAll: declaration
+        ? undefined
+        : findExportAllDeclaration(symbol, program, services),
+    });
+  }
+  return moduleExports;
+}
+
+/**
+ * The function declared by `declaration`, e.g. `export async function save()`
+ * or `export const save = async () => {}`.
+ */
+export function getFunctionNode(
+  declaration: ts.Declaration
+): ts.SignatureDeclaration | undefined {
+  if (ts.isFunctionDeclaration(declaration)) {
+    return declaration;
+  }
+
+  const initializer = ts.isVariableDeclaration(declaration)
+    ? declaration.initializer
+    : ts.isExportAssignment(declaration)
+      ? declaration.expression
+      : undefined;
+  return initializer &&
+    (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+    ? initializer
+    : undefined;
+}
+
+/**
+ * Whether the value `name` exported from a `'use client'` module is usable
+ * from Server Components, which only receive a reference to it: components
+ * they render and Server Actions they pass as props. Components are PascalCase
+ * functions returning what React renders, or class components.
+ */
+export function isValidClientExport(
+  name: string,
+  symbol: ts.Symbol,
+  type: ts.Type,
+  checker: ts.TypeChecker
+): boolean {
+  // Nothing is known of untyped values
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+    return true;
+  }
+
+  // Handle: export { save } from './actions'
+  const functionNode =
+    symbol.valueDeclaration && getFunctionNode(symbol.valueDeclaration);
+  if (functionNode && isServerActionDeclaration(functionNode)) {
+    return true;
+  }
+
+  if (name !== 'default' && !/^[A-Z]/.test(name)) {
+    return false;
+  }
+
+  // Handle: class Counter extends Component { render() {} }
+  if (
+    type
+      .getConstructSignatures()
+      .some(signature => signature.getReturnType().getProperty('render'))
+  ) {
+    return true;
+  }
+
+  const signatures = type.getCallSignatures();
+  return (
+    signatures.length > 0 &&
+    signatures.every(signature =>
+      isRenderable(signature.getReturnType(), checker, new Set())
+    )
+  );
+}
+
+/**
+ * Whether the value `name` exported from a `'use client'` module is a hook,
+ * e.g. `useTheme`, or a React context, e.g. `createContext('light')`. These are
+ * shared between client modules, using them from Server Components is reported
+ * by `no-client-values-in-server-components`.
+ */
+export function isHookOrContext(name: string, type: ts.Type): boolean {
+  // Handle: export function useTheme() {}
+  if (/^use[A-Z]/.test(name) && type.getCallSignatures().length > 0) {
+    return true;
+  }
+
+  // Handle: export const ThemeContext = createContext('light')
+  return (
+    type.getProperty('Provider') !== undefined &&
+    type.getProperty('Consumer') !== undefined
+  );
+}
+
+const RENDERABLE_TYPE_FLAGS =
+  ts.TypeFlags.Any |
+  ts.TypeFlags.Unknown |
+  ts.TypeFlags.StringLike |
+  ts.TypeFlags.NumberLike |
+  ts.TypeFlags.BigIntLike |
+  ts.TypeFlags.BooleanLike |
+  ts.TypeFlags.Null |
+  ts.TypeFlags.Undefined |
+  ts.TypeFlags.Void;
+
+// Types React renders when their first type argument is renderable, besides
+// arrays
+const RENDERABLE_CONTAINERS = new Set(['Iterable', 'Promise', 'PromiseLike']);
+
+/**
+ * Whether React renders values of `type`, e.g. `JSX.Element`, `string`,
+ * `ReactNode[]` or `Promise<ReactNode>`.
+ */
+function isRenderable(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  visited: Set<ts.Type>
+): boolean {
+  // `ReactNode` is checked before its union is split, as one of its members,
+  // `Iterable<ReactNode>`, refers back to it
+  if (
+    type.flags & RENDERABLE_TYPE_FLAGS ||
+    isReactElementType(type, checker) ||
+    visited.has(type)
+  ) {
+    return true;
+  }
+  visited.add(type);
+
+  if (type.isUnion()) {
+    return type.types.every(member => isRenderable(member, checker, visited));
+  }
+  if (
+    isTypeReference(type) &&
+    (checker.isArrayType(type) ||
+      RENDERABLE_CONTAINERS.has(type.getSymbol()?.getName() ?? ''))
+  ) {
+    const [element] = checker.getTypeArguments(type);
+    return element !== undefined && isRenderable(element, checker, visited);
+  }
+  return false;
+}
+
+export function skipTypeAssertions(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression) ||
+    ts.isTypeAssertionExpression(expression) ||
+    ts.isParenthesizedExpression(expression) ||
+    ts.isNonNullExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+  return expression;
+}
+
+/**
+ * The `export * from '...'` declaration through which `symbol`, declared in
+ * another module, is exported.
+ */
+function findExportAllDeclaration(
+  symbol: ts.Symbol,
+  program: TSESTree.Program,
+  services: ParserServicesWithTypeInformation
+): TSESTree.ExportAllDeclaration | undefined {
+  const checker = services.program.getTypeChecker();
+  return program.body.find(
+    (statement): statement is TSESTree.ExportAllDeclaration => {
+      if (statement.type !== 'ExportAllDeclaration') {
+        return false;
+      }
+      const moduleSymbol = checker.getSymbolAtLocation(
+        services.esTreeNodeToTSNodeMap.get(statement.source)
+      );
+      return (
+        moduleSymbol !== undefined &&
+        checker.getExportsOfModule(moduleSymbol).includes(symbol)
+      );
+    }
+  );
+}
@@ -0,0 +1,90 @@
+import ts from 'typescript';
+import { hasTsDirective } from './directives';
+
+/**
+ * Module of the program imported through `specifier`, unless it is a library
+ * or a `'use server'` module, whose exports are references to Server Actions
+ * when imported from the client.
+ */
+export function resolveImport(
+  specifier: ts.Node,
+  program: ts.Program
+): ts.SourceFile | undefined {
+  const declaration = program
+    .getTypeChecker()
+    .getSymbolAtLocation(specifier)?.valueDeclaration;
+  if (
+    !declaration ||
+    !ts.isSourceFile(declaration) ||
+    declaration.isDeclarationFile ||
+    program.isSourceFileFromExternalLibrary(declaration) ||
+    hasTsDirective(declaration, 'use server')
+  ) {
+    return undefined;
+  }
+  return declaration;
+}
+
+/**
+ * Shortest chain of imports from `start` to a module in which `find` finds
+ * something, as the file names of the modules followed by what was found, e.g.
+ * `['lib/index.ts', 'lib/db.ts', 'server-only']`.
+ */
+export function findImportChain(
+  start: ts.SourceFile,
+  program: ts.Program,
+  find: (module: ts.SourceFile) => string | undefined
+): string[] | null {
+  const importers = new Map<ts.SourceFile, ts.SourceFile | null>([
+    [start, null],
+  ]);
+  const pending = [start];
+  for (let module = pending.shift(); module; module = pending.shift()) {
+    const found = find(module);
+    if (found !== undefined) {
+      const chain = [found];
+      for (
+        let importer: ts.SourceFile | null | undefined = module;
+        importer;
+        importer = importers.get(importer)
+      ) {
+        chain.unshift(importer.fileName);
+      }
+      return chain;
+    }
+
+    for (const specifier of getImportSpecifiers(module)) {
+      const imported = resolveImport(specifier, program);
+      if (imported && !importers.has(imported)) {
+        importers.set(imported, module);
+        pending.push(imported);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Specifiers of the modules imported or re-exported by `module`, type-only
+ * imports excepted.
+ */
+export function getImportSpecifiers(module: ts.SourceFile): ts.StringLiteral[] {
+  return module.statements.flatMap(statement => {
+    if (
+      ts.isImportDeclaration(statement) &&
+      !statement.importClause?.isTypeOnly &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      return [statement.moduleSpecifier];
+    }
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.moduleSpecifier &&
+      ts.isStringLiteral(statement.moduleSpecifier)
+    ) {
+      return [statement.moduleSpecifier];
+    }
+    return [];
+  });
+}
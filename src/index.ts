@@ -17,7 +17,28 @@ const recommended = {
     '@sbougerel/next-use-client-boundary': plugin,
   },
   rules: {
+    '@sbougerel/next-use-client-boundary/client-exports-must-be-components':
+      'error',
+    '@sbougerel/next-use-client-boundary/jsx-props-must-be-serializable':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-async-client-components': 'error',
+    '@sbougerel/next-use-client-boundary/no-client-apis-in-server-components':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-client-values-in-server-components':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-inline-server-actions-in-client-modules':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-server-env-in-client-modules':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-server-exports-in-client-files':
+      'error',
+    '@sbougerel/next-use-client-boundary/no-server-only-imports': 'error',
     '@sbougerel/next-use-client-boundary/props-must-be-serializable': 'error',
+    '@sbougerel/next-use-client-boundary/server-actions-must-be-serializable':
+      'error',
+    '@sbougerel/next-use-client-boundary/server-exports-must-be-async': 'error',
+    '@sbougerel/next-use-client-boundary/valid-directives': 'error',
+    '@sbougerel/next-use-client-boundary/valid-use-cache-functions': 'error',
   },
 };
 
@@ -0,0 +1,67 @@
+import { ESLintUtils } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective } from '../directives';
+import {
+  getModuleExports,
+  isHookOrContext,
+  isValidClientExport,
+} from '../exports';
+import { createRule } from '../utils';
+
+type MessageIds = 'nonComponentExport';
+type Options = [];
+
+export const clientExportsMustBeComponents = createRule<Options, MessageIds>({
+  name: 'client-exports-must-be-components',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce that Next.js "use client" modules only export components',
+    },
+    messages: {
+      nonComponentExport:
+        '"{{name}}" is not a component, Server Components importing it from this "use client" file receive a client reference instead of its value. Move it to a module without "use client".',
+    },
+    schema: [],
+  },
+  create(context) {
+    return {
+      Program(node) {
+        if (!hasDirective(node, 'use client')) {
+          return;
+        }
+
+        const services = ESLintUtils.getParserServices(context);
+        const checker = services.program.getTypeChecker();
+
+        for (const moduleExport of getModuleExports(node, services)) {
+          const { name, symbol, type, declaration, exportAll } = moduleExport;
+          if (
+            isValidClientExport(name, symbol, type, checker) ||
+            isHookOrContext(name, type)
+          ) {
+            continue;
+          }
+
+          // Report on the name of the export when there is one, e.g. `schema`
+          // in `export const schema = z.object({})`
+          const reportNode = declaration
+            ? services.tsNodeToESTreeNodeMap.get(
+                ts.getNameOfDeclaration(declaration) ?? declaration
+              )
+            : exportAll;
+          if (!reportNode) {
+            continue;
+          }
+
+          context.report({
+            node: reportNode,
+            messageId: 'nonComponentExport',
+            data: { name },
+          });
+        }
+      },
+    };
+  },
+});
@@ -1,5 +1,34 @@
+import { clientExportsMustBeComponents } from './client-exports-must-be-components';
+import { jsxPropsMustBeSerializable } from './jsx-props-must-be-serializable';
+import { noAsyncClientComponents } from './no-async-client-components';
+import { noClientApisInServerComponents } from './no-client-apis-in-server-components';
+import { noClientValuesInServerComponents } from './no-client-values-in-server-components';
+import { noInlineServerActionsInClientModules } from './no-inline-server-actions-in-client-modules';
+import { noServerEnvInClientModules } from './no-server-env-in-client-modules';
+import { noServerExportsInClientFiles } from './no-server-exports-in-client-files';
+import { noServerOnlyImports } from './no-server-only-imports';
+import { noUnnecessaryUseClient } from './no-unnecessary-use-client';
 import { propsMustBeSerializable } from './props-must-be-serializable';
+import { serverActionsMustBeSerializable } from './server-actions-must-be-serializable';
+import { serverExportsMustBeAsync } from './server-exports-must-be-async';
+import { validDirectives } from './valid-directives';
+import { validUseCacheFunctions } from './valid-use-cache-functions';
 
 export const rules = {
+  'client-exports-must-be-components': clientExportsMustBeComponents,
+  'jsx-props-must-be-serializable': jsxPropsMustBeSerializable,
+  'no-async-client-components': noAsyncClientComponents,
+  'no-client-apis-in-server-components': noClientApisInServerComponents,
+  'no-client-values-in-server-components': noClientValuesInServerComponents,
+  'no-inline-server-actions-in-client-modules':
+    noInlineServerActionsInClientModules,
+  'no-server-env-in-client-modules': noServerEnvInClientModules,
+  'no-server-exports-in-client-files': noServerExportsInClientFiles,
+  'no-server-only-imports': noServerOnlyImports,
+  'no-unnecessary-use-client': noUnnecessaryUseClient,
   'props-must-be-serializable': propsMustBeSerializable,
+  'server-actions-must-be-serializable': serverActionsMustBeSerializable,
+  'server-exports-must-be-async': serverExportsMustBeAsync,
+  'valid-directives': validDirectives,
+  'valid-use-cache-functions': validUseCacheFunctions,
 };
@@ -0,0 +1,236 @@
+import { ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective, hasTsDirective } from '../directives';
+import {
+  describeViolation,
+  findViolation,
+  isIgnoredFile,
+  resolveSerializabilityOptions,
+  SERIALIZABILITY_SCHEMA_PROPERTIES,
+  type SerializabilityRuleOptions,
+} from '../serializability';
+import { createRule, matchesAnyGlob } from '../utils';
+
+type MessageIds = 'functionNotServerAction' | 'invalidProp';
+type Options = [
+  Omit<SerializabilityRuleOptions, 'exemptProps'> & {
+    files?: string[];
+  },
+];
+
+export const jsxPropsMustBeSerializable = createRule<Options, MessageIds>({
+  name: 'jsx-props-must-be-serializable',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce serializable props passed from Server Components to Next.js "use client" components',
+    },
+    messages: {
+      functionNotServerAction:
+        'Props passed to the Client Component "{{component}}" must be serializable, "{{path}}" is a function that\'s not a Server Action.',
+      invalidProp:
+        'Props passed to the Client Component "{{component}}" must be serializable, "{{path}}" is invalid: {{reason}}.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...SERIALIZABILITY_SCHEMA_PROPERTIES,
+          serverActionPatterns: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Regular expressions matching the names of props whose function values are considered Server Actions when their origin is unknown.',
+          },
+          files: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Globs of the App Router files that are Server Components unless they start with "use client".',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [
+      {
+        symbols: 'next',
+        // The value passed is known at the call site, so a function is only
+        // accepted as a Server Action when it comes from one
+        serverActionPatterns: [],
+        ignoreFiles: ['**/*.{test,spec}.{js,jsx,ts,tsx}'],
+        serializableTypes: [],
+        nonSerializableTypes: [],
+        files: ['**/app/**/*.{js,jsx,ts,tsx}'],
+      },
+    ],
+  },
+  create(context, [options]) {
+    const sourceCode = context.sourceCode;
+
+    // Skip test files, by default, and files outside of the App Router,
+    // which may only be imported from client modules
+    if (
+      isIgnoredFile(context, options) ||
+      !matchesAnyGlob(context.cwd, context.filename, options.files ?? [])
+    ) {
+      return {};
+    }
+
+    const checkOptions = resolveSerializabilityOptions(context, options);
+
+    let isServerFile = false;
+
+    return {
+      Program(node) {
+        // Elements rendered in a client module are not crossing the boundary
+        isServerFile = !hasDirective(node, 'use client');
+      },
+
+      JSXOpeningElement(node) {
+        if (!isServerFile) {
+          return;
+        }
+
+        // Handle: <Button /> and <UI.Button />
+        const tagName =
+          node.name.type === 'JSXMemberExpression'
+            ? node.name.property
+            : node.name;
+        if (tagName.type !== 'JSXIdentifier') {
+          return;
+        }
+
+        const services = ESLintUtils.getParserServices(context);
+        const checker = services.program.getTypeChecker();
+        const symbol = checker.getSymbolAtLocation(
+          services.esTreeNodeToTSNodeMap.get(tagName)
+        );
+        if (!symbol || !isClientComponent(symbol, checker)) {
+          return;
+        }
+
+        const component = sourceCode.getText(node.name);
+
+        function check(
+          type: ts.Type,
+          prop: ts.Symbol,
+          attribute: TSESTree.JSXAttribute | TSESTree.JSXSpreadAttribute
+        ) {
+          const violation = findViolation(
+            type,
+            prop.getName(),
+            prop,
+            checker,
+            services.program,
+            checkOptions
+          );
+          if (!violation) {
+            return;
+          }
+
+          context.report(
+            violation.reason === 'function'
+              ? {
+                  node: attribute,
+                  messageId: 'functionNotServerAction',
+                  data: { component, path: violation.path },
+                }
+              : {
+                  node: attribute,
+                  messageId: 'invalidProp',
+                  data: {
+                    component,
+                    path: violation.path,
+                    reason: describeViolation(violation),
+                  },
+                }
+          );
+        }
+
+        for (const attribute of node.attributes) {
+          // Handle: <Button {...props} />
+          if (attribute.type === 'JSXSpreadAttribute') {
+            const tsNode = services.esTreeNodeToTSNodeMap.get(
+              attribute.argument
+            );
+            const type = checker.getTypeAtLocation(tsNode);
+            for (const prop of type.getProperties()) {
+              check(
+                checker.getTypeOfSymbolAtLocation(prop, tsNode),
+                prop,
+                attribute
+              );
+            }
+            continue;
+          }
+
+          // String literals and shorthand booleans are always serializable
+          if (
+            attribute.value?.type !== 'JSXExpressionContainer' ||
+            attribute.value.expression.type === 'JSXEmptyExpression'
+          ) {
+            continue;
+          }
+
+          const prop = checker.getSymbolAtLocation(
+            services.esTreeNodeToTSNodeMap.get(attribute.name)
+          );
+          if (!prop) {
+            continue;
+          }
+
+          check(
+            checker.getTypeAtLocation(
+              services.esTreeNodeToTSNodeMap.get(
+                skipBind(attribute.value.expression)
+              )
+            ),
+            prop,
+            attribute
+          );
+        }
+      },
+    };
+  },
+});
+
+/**
+ * Whether `symbol`, the tag of a JSX element, resolves to a component declared
+ * in a `'use client'` module.
+ */
+function isClientComponent(
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker
+): boolean {
+  const target =
+    symbol.flags & ts.SymbolFlags.Alias
+      ? checker.getAliasedSymbol(symbol)
+      : symbol;
+  return (
+    target
+      .getDeclarations()
+      ?.some(declaration =>
+        hasTsDirective(declaration.getSourceFile(), 'use client')
+      ) ?? false
+  );
+}
+
+/**
+ * The function bound by `expression` when it is a call to `bind`, e.g.
+ * `updateUser.bind(null, id)`, whose type would otherwise lose track of the
+ * Server Action it comes from.
+ */
+function skipBind(expression: TSESTree.Expression): TSESTree.Expression {
+  while (
+    expression.type === 'CallExpression' &&
+    expression.callee.type === 'MemberExpression' &&
+    !expression.callee.computed &&
+    expression.callee.property.type === 'Identifier' &&
+    expression.callee.property.name === 'bind'
+  ) {
+    expression = expression.callee.object;
+  }
+  return expression;
+}
@@ -0,0 +1,107 @@
+import { ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import { hasDirective } from '../directives';
+import { getExportedValues, getWrappedComponent } from '../exports';
+import { createRule } from '../utils';
+
+type MessageIds = 'asyncComponent' | 'promiseComponent';
+type Options = [];
+
+export const noAsyncClientComponents = createRule<Options, MessageIds>({
+  name: 'no-async-client-components',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow async components in Next.js "use client" entry files',
+    },
+    messages: {
+      asyncComponent:
+        'Client Components cannot be async, "{{name}}" is exported from a "use client" file.\nFetch its data in a Server Component parent and pass the result as props, or pass the Promise as a prop and read it with `use()`.',
+      promiseComponent:
+        'Client Components cannot return a Promise, "{{name}}" is exported from a "use client" file.\nFetch its data in a Server Component parent and pass the result as props, or pass the Promise as a prop and read it with `use()`.',
+    },
+    schema: [],
+  },
+  create(context) {
+    const sourceCode = context.sourceCode;
+
+    let hasUseClientDirective = false;
+
+    function validateExportedValue(node: TSESTree.Node, name: string): void {
+      // Handle: memo(async function Component() {})
+      if (node.type === 'CallExpression') {
+        const component = getWrappedComponent(node, sourceCode.ast);
+        if (component) {
+          validateExportedValue(component, name);
+        }
+        return;
+      }
+
+      if (
+        node.type !== 'FunctionDeclaration' &&
+        node.type !== 'FunctionExpression' &&
+        node.type !== 'ArrowFunctionExpression'
+      ) {
+        return;
+      }
+
+      // Components are named in PascalCase, other exported functions are not
+      // rendered
+      if (name !== 'default' && !/^[A-Z]/.test(name)) {
+        return;
+      }
+
+      const reportNode =
+        node.type === 'ArrowFunctionExpression' ? node : (node.id ?? node);
+      const data = { name: node.id?.name ?? name };
+
+      if (node.async) {
+        context.report({ node: reportNode, messageId: 'asyncComponent', data });
+        return;
+      }
+
+      const services = ESLintUtils.getParserServices(context);
+      const checker = services.program.getTypeChecker();
+      const signature = checker.getSignatureFromDeclaration(
+        services.esTreeNodeToTSNodeMap.get(node)
+      );
+      // Only report components that always return a Promise, React 19 types
+      // `ReactNode` as possibly being a Promise
+      const returnType = signature?.getReturnType();
+      const returnTypes = returnType?.isUnion()
+        ? returnType.types
+        : [returnType];
+      if (
+        returnTypes.every(type => type && checker.getAwaitedType(type) !== type)
+      ) {
+        context.report({
+          node: reportNode,
+          messageId: 'promiseComponent',
+          data,
+        });
+      }
+    }
+
+    return {
+      Program(node) {
+        hasUseClientDirective = hasDirective(node, 'use client');
+      },
+
+      'ExportDefaultDeclaration, ExportNamedDeclaration'(
+        node:
+          TSESTree.ExportDefaultDeclaration | TSESTree.ExportNamedDeclaration
+      ) {
+        if (!hasUseClientDirective) {
+          return;
+        }
+
+        for (const { name, node: value } of getExportedValues(
+          node,
+          sourceCode.ast
+        )) {
+          validateExportedValue(value, name);
+        }
+      },
+    };
+  },
+});
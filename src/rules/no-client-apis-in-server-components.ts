@@ -0,0 +1,138 @@
+import { TSESTree } from '@typescript-eslint/utils';
+import {
+  CLIENT_HOOKS,
+  getBrowserGlobalReferences,
+  isEventHandlerAttribute,
+} from '../client-apis';
+import { hasDirective } from '../directives';
+import { getCalleeName } from '../exports';
+import { createRule, matchesAnyGlob } from '../utils';
+
+type MessageIds =
+  | 'clientHook'
+  | 'createContext'
+  | 'browserGlobal'
+  | 'eventHandler'
+  | 'clientOnlyImport'
+  | 'addUseClient';
+type Options = [
+  {
+    files?: string[];
+  },
+];
+
+export const noClientApisInServerComponents = createRule<Options, MessageIds>({
+  name: 'no-client-apis-in-server-components',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow client-only APIs in Next.js App Router files without "use client"',
+    },
+    hasSuggestions: true,
+    messages: {
+      clientHook:
+        '"{{name}}" is only available in Client Components, add "use client" to this file or move this code to a Client Component.',
+      createContext:
+        'Contexts are only available in Client Components, add "use client" to this file or move this code to a Client Component.',
+      browserGlobal:
+        '"{{name}}" is only defined in the browser, add "use client" to this file or move this code to a Client Component.',
+      eventHandler:
+        'Event handlers such as "{{name}}" are only attached in Client Components, add "use client" to this file or move this code to a Client Component.',
+      clientOnlyImport:
+        '"client-only" modules can only be imported from Client Components, add "use client" to this file.',
+      addUseClient: 'Add the "use client" directive at the top of the file.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          files: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Globs of the App Router files that are Server Components unless they start with "use client".',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{ files: ['**/app/**/*.{js,jsx,ts,tsx}'] }],
+  },
+  create(context, [options]) {
+    const sourceCode = context.sourceCode;
+
+    if (!matchesAnyGlob(context.cwd, context.filename, options.files ?? [])) {
+      return {};
+    }
+
+    let isServerFile = false;
+
+    function report(
+      node: TSESTree.Node,
+      messageId: Exclude<MessageIds, 'addUseClient'>,
+      name?: string
+    ) {
+      context.report({
+        node,
+        messageId,
+        data: { name },
+        suggest: [
+          {
+            messageId: 'addUseClient',
+            fix: fixer =>
+              fixer.insertTextBeforeRange([0, 0], "'use client';\n\n"),
+          },
+        ],
+      });
+    }
+
+    return {
+      Program(node) {
+        isServerFile = !hasDirective(node, 'use client');
+        if (!isServerFile) {
+          return;
+        }
+
+        for (const identifier of getBrowserGlobalReferences(
+          sourceCode.getScope(node)
+        )) {
+          report(identifier, 'browserGlobal', identifier.name);
+        }
+      },
+
+      CallExpression(node) {
+        if (!isServerFile) {
+          return;
+        }
+
+        // Handle: useState() and React.useState()
+        const calleeName = getCalleeName(node);
+        if (calleeName && CLIENT_HOOKS.has(calleeName)) {
+          report(node, 'clientHook', calleeName);
+        } else if (calleeName === 'createContext') {
+          report(node, 'createContext');
+        }
+      },
+
+      JSXAttribute(node) {
+        // Handlers are only attached by DOM elements, components may take
+        // functions as props
+        if (
+          isServerFile &&
+          node.parent.name.type === 'JSXIdentifier' &&
+          /^[a-z]/.test(node.parent.name.name) &&
+          isEventHandlerAttribute(node)
+        ) {
+          report(node, 'eventHandler', sourceCode.getText(node.name));
+        }
+      },
+
+      ImportDeclaration(node) {
+        if (isServerFile && node.source.value === 'client-only') {
+          report(node, 'clientOnlyImport');
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,123 @@
+import { ESLintUtils } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective, hasTsDirective } from '../directives';
+import { isValidClientExport } from '../exports';
+import { createRule, matchesAnyGlob } from '../utils';
+
+type MessageIds = 'clientValue';
+type Options = [
+  {
+    files?: string[];
+  },
+];
+
+export const noClientValuesInServerComponents = createRule<Options, MessageIds>(
+  {
+    name: 'no-client-values-in-server-components',
+    meta: {
+      type: 'problem',
+      docs: {
+        description:
+          'Disallow using values other than components imported from Next.js "use client" modules in Server Components',
+      },
+      messages: {
+        clientValue:
+          '"{{name}}" is not a component of the "use client" module "{{module}}", Server Components receive a client reference instead of its value. Move it to a module without "use client".',
+      },
+      schema: [
+        {
+          type: 'object',
+          properties: {
+            files: {
+              type: 'array',
+              items: { type: 'string' },
+              description:
+                'Globs of the App Router files that are Server Components unless they start with "use client".',
+            },
+          },
+          additionalProperties: false,
+        },
+      ],
+      defaultOptions: [{ files: ['**/app/**/*.{js,jsx,ts,tsx}'] }],
+    },
+    create(context, [options]) {
+      const sourceCode = context.sourceCode;
+
+      if (!matchesAnyGlob(context.cwd, context.filename, options.files ?? [])) {
+        return {};
+      }
+
+      let isServerFile = false;
+
+      return {
+        Program(node) {
+          isServerFile = !hasDirective(node, 'use client');
+        },
+
+        ImportDeclaration(node) {
+          if (!isServerFile || node.importKind === 'type') {
+            return;
+          }
+
+          const services = ESLintUtils.getParserServices(context);
+          const checker = services.program.getTypeChecker();
+
+          for (const specifier of node.specifiers) {
+            // Members of namespace imports are not tracked
+            if (
+              specifier.type === 'ImportNamespaceSpecifier' ||
+              (specifier.type === 'ImportSpecifier' &&
+                specifier.importKind === 'type')
+            ) {
+              continue;
+            }
+
+            const local = services.esTreeNodeToTSNodeMap.get(specifier.local);
+            const alias = checker.getSymbolAtLocation(local);
+            if (!alias || !(alias.flags & ts.SymbolFlags.Alias)) {
+              continue;
+            }
+            const symbol = checker.getAliasedSymbol(alias);
+            const sourceFile = symbol.declarations?.[0]?.getSourceFile();
+            if (
+              !sourceFile ||
+              sourceFile.isDeclarationFile ||
+              !hasTsDirective(sourceFile, 'use client')
+            ) {
+              continue;
+            }
+
+            const name =
+              specifier.type === 'ImportDefaultSpecifier'
+                ? 'default'
+                : specifier.imported.type === 'Identifier'
+                  ? specifier.imported.name
+                  : specifier.imported.value;
+            if (
+              isValidClientExport(
+                name,
+                symbol,
+                checker.getTypeOfSymbolAtLocation(symbol, local),
+                checker
+              )
+            ) {
+              continue;
+            }
+
+            // Imports only used as types are erased
+            const [variable] = sourceCode.getDeclaredVariables(specifier);
+            if (
+              variable?.references.some(reference => reference.isValueReference)
+            ) {
+              context.report({
+                node: specifier,
+                messageId: 'clientValue',
+                data: { name, module: node.source.value },
+              });
+            }
+          }
+        },
+      };
+    },
+  }
+);
@@ -0,0 +1,55 @@
+import { TSESTree } from '@typescript-eslint/utils';
+import { getDirectives, hasDirective } from '../directives';
+import { createRule } from '../utils';
+
+type MessageIds = 'inlineServerAction';
+type Options = [];
+
+export const noInlineServerActionsInClientModules = createRule<
+  Options,
+  MessageIds
+>({
+  name: 'no-inline-server-actions-in-client-modules',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow inline "use server" functions in Next.js "use client" modules',
+    },
+    messages: {
+      inlineServerAction:
+        'Server Actions cannot be defined inline in a "use client" module. Move this function to a separate file starting with "use server" and import it from there.',
+    },
+    schema: [],
+  },
+  create(context) {
+    let hasUseClientDirective = false;
+
+    return {
+      Program(node) {
+        hasUseClientDirective = hasDirective(node, 'use client');
+      },
+
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(
+        node:
+          | TSESTree.FunctionDeclaration
+          | TSESTree.FunctionExpression
+          | TSESTree.ArrowFunctionExpression
+      ) {
+        if (!hasUseClientDirective || node.body.type !== 'BlockStatement') {
+          return;
+        }
+
+        // Handle: async function save() { 'use server'; }
+        const directive = getDirectives(node.body.body).find(
+          statement =>
+            statement.expression.type === 'Literal' &&
+            statement.expression.value === 'use server'
+        );
+        if (directive) {
+          context.report({ node: directive, messageId: 'inlineServerAction' });
+        }
+      },
+    };
+  },
+});
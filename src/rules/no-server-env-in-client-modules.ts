@@ -0,0 +1,233 @@
+import { ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective } from '../directives';
+import { findImportChain, resolveImport } from '../imports';
+import { createRule, relativePath } from '../utils';
+
+type MessageIds = 'serverEnv' | 'transitiveServerEnv';
+type Options = [
+  {
+    allow?: string[];
+  },
+];
+
+export const noServerEnvInClientModules = createRule<Options, MessageIds>({
+  name: 'no-server-env-in-client-modules',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow reading environment variables not prefixed with NEXT_PUBLIC_ in Next.js "use client" modules, directly or through other modules',
+    },
+    messages: {
+      serverEnv:
+        '"process.env.{{name}}" is undefined in the browser, Next.js only inlines variables prefixed with NEXT_PUBLIC_ in client modules.',
+      transitiveServerEnv:
+        '"process.env.{{name}}" is undefined in the browser, Next.js only inlines variables prefixed with NEXT_PUBLIC_ in client modules. It is read by a module imported through: {{chain}}.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          allow: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Names of the environment variables that can be read from client modules, besides those prefixed with `NEXT_PUBLIC_`.',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{ allow: ['NODE_ENV'] }],
+  },
+  create(context, [options]) {
+    const allow = new Set(options.allow);
+
+    function isAllowed(name: string): boolean {
+      return name.startsWith('NEXT_PUBLIC_') || allow.has(name);
+    }
+
+    // Chains found from each module, shared by the imports of the linted file
+    const chains = new Map<ts.SourceFile, string[] | null>();
+
+    let hasUseClientDirective = false;
+
+    function checkRead(node: TSESTree.Node, name: string | undefined) {
+      if (hasUseClientDirective && name !== undefined && !isAllowed(name)) {
+        context.report({ node, messageId: 'serverEnv', data: { name } });
+      }
+    }
+
+    function checkImport(
+      node:
+        | TSESTree.ImportDeclaration
+        | TSESTree.ExportAllDeclaration
+        | TSESTree.ExportNamedDeclaration
+    ) {
+      if (!hasUseClientDirective || !node.source) {
+        return;
+      }
+
+      const services = ESLintUtils.getParserServices(context);
+      const imported = resolveImport(
+        services.esTreeNodeToTSNodeMap.get(node.source),
+        services.program
+      );
+      if (!imported) {
+        return;
+      }
+
+      if (!chains.has(imported)) {
+        chains.set(
+          imported,
+          findImportChain(imported, services.program, module =>
+            findServerEnvRead(module, isAllowed)
+          )
+        );
+      }
+      const chain = chains.get(imported);
+      if (!chain) {
+        return;
+      }
+
+      context.report({
+        node,
+        messageId: 'transitiveServerEnv',
+        data: {
+          name: chain[chain.length - 1],
+          chain: [
+            node.source.value,
+            ...chain
+              .slice(1, -1)
+              .map(fileName => relativePath(context.cwd, fileName)),
+          ].join(' → '),
+        },
+      });
+    }
+
+    return {
+      Program(node) {
+        hasUseClientDirective = hasDirective(node, 'use client');
+      },
+
+      // Handle: process.env.SECRET and process.env['SECRET']
+      MemberExpression(node) {
+        if (isProcessEnv(node.object)) {
+          checkRead(node, getPropertyName(node.property, node.computed));
+        }
+      },
+
+      // Handle: const { SECRET } = process.env
+      VariableDeclarator(node) {
+        if (node.id.type !== 'ObjectPattern' || !isProcessEnv(node.init)) {
+          return;
+        }
+        for (const property of node.id.properties) {
+          if (property.type === 'Property') {
+            checkRead(
+              property,
+              getPropertyName(property.key, property.computed)
+            );
+          }
+        }
+      },
+
+      ImportDeclaration(node) {
+        if (node.importKind !== 'type') {
+          checkImport(node);
+        }
+      },
+
+      'ExportAllDeclaration, ExportNamedDeclaration'(
+        node: TSESTree.ExportAllDeclaration | TSESTree.ExportNamedDeclaration
+      ) {
+        if (node.exportKind !== 'type') {
+          checkImport(node);
+        }
+      },
+    };
+  },
+});
+
+function isProcessEnv(node: TSESTree.Node | null): boolean {
+  return (
+    node?.type === 'MemberExpression' &&
+    !node.computed &&
+    node.object.type === 'Identifier' &&
+    node.object.name === 'process' &&
+    node.property.type === 'Identifier' &&
+    node.property.name === 'env'
+  );
+}
+
+function getPropertyName(
+  node: TSESTree.Node,
+  computed: boolean
+): string | undefined {
+  if (!computed && node.type === 'Identifier') {
+    return node.name;
+  }
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  return undefined;
+}
+
+/**
+ * Name of the first environment variable read by `module` that is not
+ * allowed in client modules.
+ */
+function findServerEnvRead(
+  module: ts.SourceFile,
+  isAllowed: (name: string) => boolean
+): string | undefined {
+  function isProcessEnvTs(node: ts.Node | undefined): boolean {
+    return (
+      node !== undefined &&
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'process' &&
+      node.name.text === 'env'
+    );
+  }
+
+  function getNames(node: ts.Node): string[] {
+    if (
+      ts.isPropertyAccessExpression(node) &&
+      isProcessEnvTs(node.expression)
+    ) {
+      return [node.name.text];
+    }
+    if (
+      ts.isElementAccessExpression(node) &&
+      isProcessEnvTs(node.expression) &&
+      ts.isStringLiteralLike(node.argumentExpression)
+    ) {
+      return [node.argumentExpression.text];
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isObjectBindingPattern(node.name) &&
+      isProcessEnvTs(node.initializer)
+    ) {
+      return node.name.elements.flatMap(element => {
+        const name = element.propertyName ?? element.name;
+        return !element.dotDotDotToken &&
+          (ts.isIdentifier(name) || ts.isStringLiteralLike(name))
+          ? [name.text]
+          : [];
+      });
+    }
+    return [];
+  }
+
+  function visit(node: ts.Node): string | undefined {
+    return (
+      getNames(node).find(name => !isAllowed(name)) ??
+      ts.forEachChild(node, visit)
+    );
+  }
+
+  return visit(module);
+}
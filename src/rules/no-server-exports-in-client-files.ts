@@ -0,0 +1,143 @@
+import { TSESTree } from '@typescript-eslint/utils';
+import { basename } from 'node:path';
+import { getDirectives, removeDirective } from '../directives';
+import { createRule } from '../utils';
+
+type MessageIds = 'serverExport' | 'serverOnlyFile' | 'removeUseClient';
+type Options = [];
+
+// App Router files rendered as part of a route segment
+// https://nextjs.org/docs/app/getting-started/project-structure#routing-files
+const SEGMENT_FILES = new Set([
+  'page',
+  'layout',
+  'template',
+  'default',
+  'loading',
+  'not-found',
+  'error',
+  'global-error',
+]);
+
+// Exports read by Next.js on the server, which it cannot read from client
+// modules
+// https://nextjs.org/docs/app/api-reference/file-conventions/route-segment-config
+const SERVER_EXPORTS = new Set([
+  'metadata',
+  'generateMetadata',
+  'viewport',
+  'generateViewport',
+  'generateStaticParams',
+  'revalidate',
+  'dynamic',
+  'dynamicParams',
+  'fetchCache',
+  'runtime',
+  'preferredRegion',
+  'maxDuration',
+  'experimental_ppr',
+]);
+
+// Files that never run in the browser
+const SERVER_ONLY_FILES = new Set(['route', 'middleware', 'instrumentation']);
+
+export const noServerExportsInClientFiles = createRule<Options, MessageIds>({
+  name: 'no-server-exports-in-client-files',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow Next.js metadata and route segment config exports in "use client" files, and "use client" in server-only files',
+    },
+    hasSuggestions: true,
+    messages: {
+      serverExport:
+        '"{{name}}" cannot be exported from a "use client" {{file}} file, Next.js only reads it from Server Components. Move the client code to a component imported by this file and remove "use client".',
+      serverOnlyFile:
+        '"use client" is not valid in a {{file}} file, which never runs in the browser.',
+      removeUseClient: 'Remove the "use client" directive.',
+    },
+    schema: [],
+  },
+  create(context) {
+    const sourceCode = context.sourceCode;
+    const file = basename(context.filename);
+    const name = file.replace(/\.(js|jsx|ts|tsx)$/, '');
+
+    if (
+      name === file ||
+      (!SEGMENT_FILES.has(name) && !SERVER_ONLY_FILES.has(name))
+    ) {
+      return {};
+    }
+
+    let hasUseClientDirective = false;
+
+    function checkExport(node: TSESTree.Node, exportedName: string) {
+      if (SERVER_EXPORTS.has(exportedName)) {
+        context.report({
+          node,
+          messageId: 'serverExport',
+          data: { name: exportedName, file: name },
+        });
+      }
+    }
+
+    return {
+      Program(node) {
+        const directive = getDirectives(node.body).find(
+          statement =>
+            statement.expression.type === 'Literal' &&
+            statement.expression.value === 'use client'
+        );
+        hasUseClientDirective = directive !== undefined;
+
+        if (directive && SERVER_ONLY_FILES.has(name)) {
+          context.report({
+            node: directive,
+            messageId: 'serverOnlyFile',
+            data: { file: name },
+            suggest: [
+              {
+                messageId: 'removeUseClient',
+                fix: fixer => removeDirective(fixer, directive, sourceCode),
+              },
+            ],
+          });
+        }
+      },
+
+      ExportNamedDeclaration(node) {
+        if (!hasUseClientDirective || !SEGMENT_FILES.has(name)) {
+          return;
+        }
+
+        // Handle: export function generateMetadata() {}
+        if (node.declaration?.type === 'FunctionDeclaration') {
+          if (node.declaration.id) {
+            checkExport(node.declaration.id, node.declaration.id.name);
+          }
+        }
+        // Handle: export const metadata = {}
+        else if (node.declaration?.type === 'VariableDeclaration') {
+          for (const declarator of node.declaration.declarations) {
+            if (declarator.id.type === 'Identifier') {
+              checkExport(declarator.id, declarator.id.name);
+            }
+          }
+        }
+        // Handle: export { metadata } and export { revalidate } from './config'
+        else {
+          for (const specifier of node.specifiers) {
+            checkExport(
+              specifier.exported,
+              specifier.exported.type === 'Identifier'
+                ? specifier.exported.name
+                : specifier.exported.value
+            );
+          }
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,155 @@
+import { ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import { minimatch } from 'minimatch';
+import ts from 'typescript';
+import { hasDirective } from '../directives';
+import {
+  findImportChain,
+  getImportSpecifiers,
+  resolveImport,
+} from '../imports';
+import { createRule, relativePath } from '../utils';
+
+type MessageIds = 'serverOnlyImport' | 'transitiveServerOnlyImport';
+type Options = [
+  {
+    serverOnlyModules?: string[];
+  },
+];
+
+export const noServerOnlyImports = createRule<Options, MessageIds>({
+  name: 'no-server-only-imports',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow importing server-only modules from Next.js "use client" modules, directly or through other modules',
+    },
+    messages: {
+      serverOnlyImport:
+        '"{{module}}" is server-only and cannot be imported from a "use client" module.',
+      transitiveServerOnlyImport:
+        '"{{module}}" is server-only and cannot be imported from a "use client" module, it is imported through: {{chain}}.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          serverOnlyModules: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Specifiers of server-only modules, globs are allowed e.g. `node:*`.',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [
+      {
+        serverOnlyModules: [
+          'server-only',
+          'next/headers',
+          'node:*',
+          'fs',
+          'fs/promises',
+          'child_process',
+        ],
+      },
+    ],
+  },
+  create(context, [options]) {
+    const serverOnlyModules = options.serverOnlyModules ?? [];
+
+    function isServerOnly(specifier: string): boolean {
+      return serverOnlyModules.some(pattern => minimatch(specifier, pattern));
+    }
+
+    // Chains found from each module, shared by the imports of the linted file
+    const chains = new Map<ts.SourceFile, string[] | null>();
+
+    let hasUseClientDirective = false;
+
+    function checkImport(
+      node:
+        | TSESTree.ImportDeclaration
+        | TSESTree.ExportAllDeclaration
+        | TSESTree.ExportNamedDeclaration
+    ) {
+      if (!hasUseClientDirective || !node.source) {
+        return;
+      }
+
+      const specifier = node.source.value;
+      if (isServerOnly(specifier)) {
+        context.report({
+          node,
+          messageId: 'serverOnlyImport',
+          data: { module: specifier },
+        });
+        return;
+      }
+
+      const services = ESLintUtils.getParserServices(context);
+      const imported = resolveImport(
+        services.esTreeNodeToTSNodeMap.get(node.source),
+        services.program
+      );
+      if (!imported) {
+        return;
+      }
+
+      if (!chains.has(imported)) {
+        chains.set(
+          imported,
+          findImportChain(
+            imported,
+            services.program,
+            module =>
+              getImportSpecifiers(module).find(specifier =>
+                isServerOnly(specifier.text)
+              )?.text
+          )
+        );
+      }
+      const chain = chains.get(imported);
+      if (!chain) {
+        return;
+      }
+
+      context.report({
+        node,
+        messageId: 'transitiveServerOnlyImport',
+        data: {
+          module: chain[chain.length - 1],
+          chain: [
+            specifier,
+            ...chain
+              .slice(1, -1)
+              .map(fileName => relativePath(context.cwd, fileName)),
+            chain[chain.length - 1],
+          ].join(' → '),
+        },
+      });
+    }
+
+    return {
+      Program(node) {
+        hasUseClientDirective = hasDirective(node, 'use client');
+      },
+
+      ImportDeclaration(node) {
+        if (node.importKind !== 'type') {
+          checkImport(node);
+        }
+      },
+
+      'ExportAllDeclaration, ExportNamedDeclaration'(
+        node: TSESTree.ExportAllDeclaration | TSESTree.ExportNamedDeclaration
+      ) {
+        if (node.exportKind !== 'type') {
+          checkImport(node);
+        }
+      },
+    };
+  },
+});
@@ -0,0 +1,144 @@
+import { TSESTree } from '@typescript-eslint/utils';
+import { minimatch } from 'minimatch';
+import {
+  CLIENT_HOOKS,
+  getBrowserGlobalReferences,
+  isEventHandlerAttribute,
+} from '../client-apis';
+import { getDirectives, removeDirective } from '../directives';
+import { CLASS_COMPONENT_BASES, getCalleeName } from '../exports';
+import { createRule } from '../utils';
+
+type MessageIds = 'unnecessaryUseClient' | 'removeUseClient';
+type Options = [
+  {
+    clientOnlyModules?: string[];
+  },
+];
+
+export const noUnnecessaryUseClient = createRule<Options, MessageIds>({
+  name: 'no-unnecessary-use-client',
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description:
+        'Disallow "use client" directives in modules that use no client-only API',
+    },
+    hasSuggestions: true,
+    messages: {
+      unnecessaryUseClient:
+        'This module uses no hooks, browser globals, event handlers or client-only modules, "use client" needlessly adds it to the client bundle.',
+      removeUseClient: 'Remove the "use client" directive.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          clientOnlyModules: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Specifiers of modules that can only be imported from client modules, globs are allowed.',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [{ clientOnlyModules: ['client-only'] }],
+  },
+  create(context, [options]) {
+    const sourceCode = context.sourceCode;
+    const clientOnlyModules = options.clientOnlyModules ?? [];
+
+    let directive: TSESTree.ExpressionStatement | undefined;
+    let usesClientApis = false;
+
+    return {
+      Program(node) {
+        directive = getDirectives(node.body).find(
+          statement =>
+            statement.expression.type === 'Literal' &&
+            statement.expression.value === 'use client'
+        );
+        usesClientApis =
+          getBrowserGlobalReferences(sourceCode.getScope(node)).length > 0;
+      },
+
+      CallExpression(node) {
+        // Custom hooks are assumed to use client-only hooks
+        const calleeName = getCalleeName(node);
+        if (
+          calleeName &&
+          (CLIENT_HOOKS.has(calleeName) ||
+            /^use[A-Z]/.test(calleeName) ||
+            calleeName === 'createContext')
+        ) {
+          usesClientApis = true;
+        }
+      },
+
+      JSXAttribute(node) {
+        // Functions can only be passed as props from client modules, e.g.
+        // `onClick={...}` or `render={() => ...}`
+        if (
+          isEventHandlerAttribute(node) ||
+          (node.value?.type === 'JSXExpressionContainer' &&
+            (node.value.expression.type === 'ArrowFunctionExpression' ||
+              node.value.expression.type === 'FunctionExpression'))
+        ) {
+          usesClientApis = true;
+        }
+      },
+
+      'ClassDeclaration, ClassExpression'(
+        node: TSESTree.ClassDeclaration | TSESTree.ClassExpression
+      ) {
+        // Handle: class Component extends React.Component {}
+        const superClass =
+          node.superClass?.type === 'MemberExpression'
+            ? node.superClass.property
+            : node.superClass;
+        if (
+          superClass?.type === 'Identifier' &&
+          CLASS_COMPONENT_BASES.has(superClass.name)
+        ) {
+          usesClientApis = true;
+        }
+      },
+
+      ImportDeclaration(node) {
+        if (
+          clientOnlyModules.some(pattern =>
+            minimatch(node.source.value, pattern)
+          )
+        ) {
+          usesClientApis = true;
+        }
+      },
+
+      'ExportAllDeclaration, ExportNamedDeclaration[source]'() {
+        // Re-exports mark the boundary of modules that lack the directive,
+        // such as libraries of client components
+        usesClientApis = true;
+      },
+
+      'Program:exit'() {
+        if (!directive || usesClientApis) {
+          return;
+        }
+
+        const statement = directive;
+        context.report({
+          node: statement,
+          messageId: 'unnecessaryUseClient',
+          suggest: [
+            {
+              messageId: 'removeUseClient',
+              fix: fixer => removeDirective(fixer, statement, sourceCode),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
@@ -1,9 +1,49 @@
-import { ESLintUtils, TSESTree, type TSESLint } from '@typescript-eslint/utils';
+import {
+  ESLintUtils,
+  TSESTree,
+  type ParserServicesWithTypeInformation,
+  type TSESLint,
+} from '@typescript-eslint/utils';
 import ts from 'typescript';
-import { createRule } from '../utils';
-
-type MessageIds = 'functionNotServerAction' | 'invalidProp';
-type Options = [];
+import { hasDirective } from '../directives';
+import {
+  CLASS_COMPONENT_BASES,
+  getCalleeName,
+  getExportedValues,
+  getModuleExports,
+  getWrappedComponent,
+  skipTypeAssertions,
+  TRANSPARENT_WRAPPERS,
+} from '../exports';
+import {
+  describeViolation,
+  findViolation,
+  isFunctionType,
+  isIgnoredFile,
+  isLibType,
+  isTypeReference,
+  resolveSerializabilityOptions,
+  SERIALIZABILITY_SCHEMA_PROPERTIES,
+  type SerializabilityOptions,
+  type SerializabilityRuleOptions,
+  type Violation,
+} from '../serializability';
+import { createRule, relativePath } from '../utils';
+
+type MessageIds =
+  | 'functionNotServerAction'
+  | 'invalidProp'
+  | 'externalFunctionNotServerAction'
+  | 'externalInvalidProp'
+  | 'externalInvalidProps'
+  | 'renameToAction'
+  | 'replaceType';
+type Options = [
+  SerializabilityRuleOptions & {
+    hocNames?: string[];
+    exportDetection?: 'syntax' | 'type';
+  },
+];
 
 export const propsMustBeSerializable = createRule<Options, MessageIds>({
   name: 'props-must-be-serializable',
@@ -15,134 +55,185 @@ export const propsMustBeSerializable = createRule<Options, MessageIds>({
     },
     messages: {
       functionNotServerAction:
-        'Props must be serializable for components in the "use client" entry file. "{{propName}}" is a function that\'s not a Server Action.\nRename "{{propName}}" either to "action" or have its name end with "Action" e.g. "{{propName}}Action" to indicate it is a Server Action.',
+        'Props must be serializable for components in the "use client" entry file. "{{path}}" is a function that\'s not a Server Action.\nRename "{{propName}}" either to "action" or have its name end with "Action" e.g. "{{propName}}Action" to indicate it is a Server Action.',
       invalidProp:
-        'Props must be serializable for components in the "use client" entry file, "{{propName}}" is invalid.',
+        'Props must be serializable for components in the "use client" entry file, "{{path}}" is invalid: {{reason}}.',
+      externalFunctionNotServerAction:
+        'Props must be serializable for components in the "use client" entry file. "{{path}}" (declared in {{location}}) is a function that\'s not a Server Action.\nRename "{{propName}}" either to "action" or have its name end with "Action" e.g. "{{propName}}Action" to indicate it is a Server Action.',
+      externalInvalidProp:
+        'Props must be serializable for components in the "use client" entry file, "{{path}}" (declared in {{location}}) is invalid: {{reason}}.',
+      externalInvalidProps:
+        'Props must be serializable for components in the "use client" entry file, {{count}} props declared elsewhere are invalid: {{props}}.',
+      renameToAction: 'Rename "{{propName}}" to "{{newName}}" in this file.',
+      replaceType: 'Replace "{{typeName}}" with "{{replacement}}".',
     },
-    schema: [],
+    hasSuggestions: true,
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...SERIALIZABILITY_SCHEMA_PROPERTIES,
+          serverActionPatterns: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Regular expressions matching the names of function props that are considered Server Actions.',
+          },
+          exemptProps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                files: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description:
+                    'Globs of the files where the props are allowed.',
+                },
+                props: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Names of the allowed function props.',
+                },
+              },
+              required: ['files', 'props'],
+              additionalProperties: false,
+            },
+            description:
+              'Names of function props allowed in files matching the given globs.',
+          },
+          hocNames: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Names of higher-order components whose result is checked when exported, in addition to `memo`, `forwardRef` and `lazy`.',
+          },
+          exportDetection: {
+            type: 'string',
+            enum: ['syntax', 'type'],
+            description:
+              'How exported components are found: "syntax" recognizes common export patterns, "type" checks every exported value with a call signature using the type checker.',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [
+      {
+        symbols: 'next',
+        // Server Actions are named 'action' or end with 'Action'. See
+        // reference implementation for more information:
+        // https://github.com/vercel/next.js/blob/canary/packages/next/src/server/typescript/rules/client-boundary.ts
+        serverActionPatterns: ['^action$', 'Action$'],
+        // Allow 'reset' in error files, see Next. See reference implementation
+        // for more information:
+        // https://github.com/vercel/next.js/blob/canary/packages/next/src/server/typescript/rules/client-boundary.ts
+        exemptProps: [
+          {
+            files: [
+              '**/error.{js,jsx,ts,tsx}',
+              '**/global-error.{js,jsx,ts,tsx}',
+            ],
+            props: ['reset'],
+          },
+        ],
+        ignoreFiles: ['**/*.{test,spec}.{js,jsx,ts,tsx}'],
+        serializableTypes: [],
+        nonSerializableTypes: [],
+        hocNames: [],
+        exportDetection: 'syntax',
+      },
+    ],
   },
-  defaultOptions: [],
-  create(context) {
-    const filename = context.filename;
+  create(context, [options]) {
     const sourceCode = context.sourceCode;
 
-    // Skip test files
-    if (/\.(test|spec)\.[jt]sx?$/.test(filename)) {
+    // Skip test files, by default
+    if (isIgnoredFile(context, options)) {
       return {};
     }
 
+    const checkOptions = resolveSerializabilityOptions(context, options);
+
+    const hocNames = new Set(options.hocNames);
+
     let hasUseClientDirective = false;
 
     return {
       Program(node) {
-        // Check if the first statement is 'use client' directive
-        if (node.body.length > 0) {
-          const firstStatement = node.body[0];
-          if (
-            firstStatement.type === 'ExpressionStatement' &&
-            firstStatement.expression.type === 'Literal' &&
-            firstStatement.expression.value === 'use client'
-          ) {
-            hasUseClientDirective = true;
-          }
+        // Check if the directive prologue contains 'use client', it may
+        // follow other directives such as 'use strict'
+        hasUseClientDirective = hasDirective(node, 'use client');
+
+        if (hasUseClientDirective && options.exportDetection === 'type') {
+          validateModuleExports(node, context, checkOptions);
         }
       },
 
-      ExportDefaultDeclaration(node) {
-        if (!hasUseClientDirective) return;
-
-        let functionNode:
-          | TSESTree.FunctionDeclaration
-          | TSESTree.ArrowFunctionExpression
-          | null = null;
-
-        if (node.declaration.type === 'FunctionDeclaration') {
-          functionNode = node.declaration;
-        } else if (node.declaration.type === 'Identifier') {
-          // Handle: const Comp = () => {}; export default Comp;
-          // We need to find the variable declaration
-          const variable = findVariableDeclaration(
-            node.declaration.name,
-            sourceCode.ast
-          );
-          if (variable && variable.init) {
-            if (variable.init.type === 'ArrowFunctionExpression') {
-              functionNode = variable.init;
-            }
-          }
-        } else if (node.declaration.type === 'ArrowFunctionExpression') {
-          functionNode = node.declaration;
+      'ExportDefaultDeclaration, ExportNamedDeclaration'(
+        node:
+          TSESTree.ExportDefaultDeclaration | TSESTree.ExportNamedDeclaration
+      ) {
+        if (!hasUseClientDirective || options.exportDetection === 'type') {
+          return;
         }
 
-        if (functionNode) {
-          validateComponentProps(functionNode, context, filename);
+        for (const { node: value } of getExportedValues(node, sourceCode.ast)) {
+          validateExportedValue(value);
         }
       },
+    };
 
-      ExportNamedDeclaration(node) {
-        if (!hasUseClientDirective) return;
+    function validateExportedValue(node: TSESTree.Node): void {
+      if (
+        node.type === 'FunctionDeclaration' ||
+        node.type === 'ArrowFunctionExpression' ||
+        node.type === 'FunctionExpression'
+      ) {
+        validateComponentProps(node, context, checkOptions);
+        return;
+      }
 
-        // Handle: export function Component() {}
-        if (node.declaration?.type === 'FunctionDeclaration') {
-          validateComponentProps(node.declaration, context, filename);
-        }
-        // Handle: export const Component = () => {} or export const Component = function() {}
-        else if (node.declaration?.type === 'VariableDeclaration') {
-          for (const declarator of node.declaration.declarations) {
-            if (declarator.init) {
-              if (
-                declarator.init.type === 'ArrowFunctionExpression' ||
-                declarator.init.type === 'FunctionExpression'
-              ) {
-                validateComponentProps(declarator.init, context, filename);
-              }
-            }
-          }
-        }
-        // Handle: export { Component }
-        else if (node.specifiers.length > 0) {
-          for (const specifier of node.specifiers) {
-            if (
-              specifier.type === 'ExportSpecifier' &&
-              specifier.local.type === 'Identifier'
-            ) {
-              const variable = findVariableDeclaration(
-                specifier.local.name,
-                sourceCode.ast
-              );
-              if (variable && variable.init) {
-                if (variable.init.type === 'ArrowFunctionExpression') {
-                  validateComponentProps(variable.init, context, filename);
-                } else if (variable.init.type === 'FunctionExpression') {
-                  validateComponentProps(variable.init, context, filename);
-                }
-              }
-            }
-          }
-        }
-      },
-    };
-  },
-});
+      // Handle: class Component extends React.Component<Props> {}
+      if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+        validateClassComponentProps(node, context, checkOptions);
+        return;
+      }
 
-function findVariableDeclaration(
-  name: string,
-  program: TSESTree.Program
-): TSESTree.VariableDeclarator | null {
-  for (const statement of program.body) {
-    if (statement.type === 'VariableDeclaration') {
-      for (const declarator of statement.declarations) {
-        if (
-          declarator.id.type === 'Identifier' &&
-          declarator.id.name === name
-        ) {
-          return declarator;
-        }
+      if (node.type !== 'CallExpression') {
+        return;
+      }
+
+      const calleeName = getCalleeName(node);
+      if (!calleeName) {
+        return;
+      }
+
+      // Handle: memo(function Component() {}) or forwardRef((props, ref) => {})
+      const component = getWrappedComponent(node, sourceCode.ast);
+      if (
+        component &&
+        (component.type === 'FunctionExpression' ||
+          component.type === 'ArrowFunctionExpression' ||
+          component.type === 'CallExpression')
+      ) {
+        validateExportedValue(component);
+        return;
+      }
+
+      // Handle: lazy(() => import('./Component')) or withTheme(Component),
+      // the wrapped component is opaque so the props are read from the call
+      // signature of the resulting component
+      if (
+        TRANSPARENT_WRAPPERS.has(calleeName) ||
+        calleeName === 'lazy' ||
+        hocNames.has(calleeName)
+      ) {
+        validateComponentType(node, context, checkOptions);
       }
     }
-  }
-  return null;
-}
+  },
+});
 
 function validateComponentProps(
   functionNode:
@@ -150,7 +241,7 @@ function validateComponentProps(
     | TSESTree.ArrowFunctionExpression
     | TSESTree.FunctionExpression,
   context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
-  filename: string
+  options: SerializabilityOptions
 ) {
   if (functionNode.params.length === 0) {
     return;
@@ -173,166 +264,660 @@ function validateComponentProps(
     return;
   }
 
+  validatePropsType(
+    checker.getTypeAtLocation(tsNode),
+    tsNode,
+    propsParam.typeAnnotation ?? propsParam,
+    context,
+    options
+  );
+}
+
+/**
+ * Validate the first parameter of every value exported by the module that has
+ * a call signature, as found by the type checker. Unlike the syntactic
+ * detection, this covers any way of declaring and exporting a component.
+ */
+function validateModuleExports(
+  program: TSESTree.Program,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
+  options: SerializabilityOptions
+) {
+  const services = ESLintUtils.getParserServices(context);
+  const checker = services.program.getTypeChecker();
+  const sourceFile = services.esTreeNodeToTSNodeMap.get(program);
+
+  // Values exported under several names, e.g. `export { Card }` and
+  // `export default Card as any`, are validated once
+  const validated = new Set<ts.Symbol>();
+
+  for (const { symbol, type, declaration, exportAll } of getModuleExports(
+    program,
+    services
+  )) {
+    const value =
+      (declaration &&
+        ts.isExportAssignment(declaration) &&
+        getAliasedSymbolAtLocation(
+          skipTypeAssertions(declaration.expression),
+          checker
+        )) ||
+      symbol;
+    if (validated.has(value)) {
+      continue;
+    }
+    validated.add(value);
+
+    const [signature] = type.getCallSignatures();
+    const [propsParam] = signature?.getParameters() ?? [];
+    const [constructSignature] = type.getConstructSignatures();
+    const propsType = propsParam
+      ? checker.getTypeOfSymbolAtLocation(propsParam, sourceFile)
+      : constructSignature &&
+        getClassComponentPropsType(constructSignature.getReturnType(), checker);
+    if (!propsType) {
+      continue;
+    }
+
+    const fallbackNode = declaration
+      ? getPropsFallbackNode(declaration, services)
+      : exportAll;
+    if (!fallbackNode) {
+      continue;
+    }
+
+    validatePropsType(propsType, sourceFile, fallbackNode, context, options);
+  }
+}
+
+/**
+ * Symbol of the value `node` refers to, resolved through imports and exports.
+ */
+function getAliasedSymbolAtLocation(
+  node: ts.Node,
+  checker: ts.TypeChecker
+): ts.Symbol | undefined {
+  const symbol = checker.getSymbolAtLocation(node);
+  return symbol && symbol.flags & ts.SymbolFlags.Alias
+    ? checker.getAliasedSymbol(symbol)
+    : symbol;
+}
+
+/**
+ * Node of the linted file to report on when the offending prop is declared
+ * elsewhere: the props parameter of the exported function when there is one,
+ * else the export itself.
+ */
+function getPropsFallbackNode(
+  declaration: ts.Declaration,
+  services: ReturnType<typeof ESLintUtils.getParserServices>
+): TSESTree.Node | undefined {
+  const initializer = ts.isVariableDeclaration(declaration)
+    ? declaration.initializer
+    : ts.isExportAssignment(declaration)
+      ? skipTypeAssertions(declaration.expression)
+      : undefined;
+
+  const classNode =
+    initializer && ts.isClassExpression(initializer)
+      ? initializer
+      : declaration;
+  if (ts.isClassLike(classNode)) {
+    const propsTypeArgument = classNode.heritageClauses?.find(
+      clause => clause.token === ts.SyntaxKind.ExtendsKeyword
+    )?.types[0]?.typeArguments?.[0];
+    return (
+      (propsTypeArgument &&
+        services.tsNodeToESTreeNodeMap.get(propsTypeArgument)) ||
+      services.tsNodeToESTreeNodeMap.get(declaration)
+    );
+  }
+
+  const functionNode =
+    initializer &&
+    (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+      ? initializer
+      : declaration;
+
+  if (ts.isFunctionLike(functionNode) && functionNode.parameters.length > 0) {
+    const propsParam = services.tsNodeToESTreeNodeMap.get(
+      functionNode.parameters[0]
+    );
+    if (
+      propsParam?.type === 'Identifier' ||
+      propsParam?.type === 'ObjectPattern'
+    ) {
+      return propsParam.typeAnnotation ?? propsParam;
+    }
+  }
+
+  return services.tsNodeToESTreeNodeMap.get(declaration);
+}
+
+/**
+ * Validate the props of a class component, given by the type argument of the
+ * `Component` or `PureComponent` class it extends.
+ */
+function validateClassComponentProps(
+  node: TSESTree.ClassDeclaration | TSESTree.ClassExpression,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
+  options: SerializabilityOptions
+) {
+  const services = ESLintUtils.getParserServices(context);
+  const checker = services.program.getTypeChecker();
+  const tsNode = services.esTreeNodeToTSNodeMap.get(node);
+
+  // A class declaration has the type of its instances, a class expression the
+  // type of its constructor
   const type = checker.getTypeAtLocation(tsNode);
+  const [constructSignature] = type.getConstructSignatures();
+  const propsType = getClassComponentPropsType(
+    constructSignature ? constructSignature.getReturnType() : type,
+    checker
+  );
+  if (!propsType) {
+    return;
+  }
+
+  validatePropsType(
+    propsType,
+    tsNode,
+    node.superTypeArguments?.params[0] ?? node,
+    context,
+    options
+  );
+}
+
+/**
+ * Props type of a class component given the type of its instances: the first
+ * type argument of the `Component` or `PureComponent` class it extends,
+ * directly or through other classes.
+ */
+function getClassComponentPropsType(
+  instanceType: ts.Type,
+  checker: ts.TypeChecker
+): ts.Type | undefined {
+  const visited = new Set<ts.Type>();
+  const pending = [instanceType];
+  for (let type = pending.pop(); type; type = pending.pop()) {
+    const target = isTypeReference(type) ? type.target : type;
+    if (visited.has(target)) {
+      continue;
+    }
+    visited.add(target);
+
+    if (
+      type !== instanceType &&
+      CLASS_COMPONENT_BASES.has(target.getSymbol()?.getName() ?? '')
+    ) {
+      return isTypeReference(type)
+        ? checker.getTypeArguments(type)[0]
+        : undefined;
+    }
+
+    if (
+      target.flags & ts.TypeFlags.Object &&
+      (target as ts.ObjectType).objectFlags & ts.ObjectFlags.Class
+    ) {
+      pending.push(...checker.getBaseTypes(target as ts.InterfaceType));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validate the props of a component wrapped in a higher-order component using
+ * the first parameter of the call signature of `node`, the wrapped component.
+ */
+function validateComponentType(
+  node: TSESTree.CallExpression,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
+  options: SerializabilityOptions
+) {
+  const services = ESLintUtils.getParserServices(context);
+  const checker = services.program.getTypeChecker();
+  const tsNode = services.esTreeNodeToTSNodeMap.get(node);
 
+  const [signature] = checker.getTypeAtLocation(tsNode).getCallSignatures();
+  const [propsParam] = signature?.getParameters() ?? [];
+  if (!propsParam) {
+    return;
+  }
+
+  validatePropsType(
+    checker.getTypeOfSymbolAtLocation(propsParam, tsNode),
+    tsNode,
+    node,
+    context,
+    options
+  );
+}
+
+function validatePropsType(
+  type: ts.Type,
+  tsNode: ts.Node,
+  fallbackNode: TSESTree.Node,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>,
+  options: SerializabilityOptions
+) {
+  const services = ESLintUtils.getParserServices(context);
+  const checker = services.program.getTypeChecker();
+
+  // Props are objects, the properties of primitives (e.g. `string.length`),
+  // arrays or built-ins (e.g. `Date.prototype.toString`) taken by exported
+  // helpers are not props
+  if (
+    !(type.flags & (ts.TypeFlags.Object | ts.TypeFlags.UnionOrIntersection)) ||
+    checker.isArrayLikeType(type) ||
+    isLibType(type, services.program)
+  ) {
+    return;
+  }
+
+  const externalViolations: ExternalViolations = new Map();
   const properties = type.getProperties();
   for (const prop of properties) {
+    if (isReactAttribute(prop)) {
+      continue;
+    }
+
     const propName = prop.getName();
     const propType = checker.getTypeOfSymbolAtLocation(prop, tsNode);
 
-    if (isFunctionType(propType, checker)) {
-      // Allow if propName is 'action' or ends with 'Action'. See reference
-      // implementation for more information:
-      // https://github.com/vercel/next.js/blob/canary/packages/next/src/server/typescript/rules/client-boundary.ts
-      if (propName === 'action' || /Action$/.test(propName)) {
-        continue;
-      }
-
-      // Allow 'reset' in error files, see Next. See reference implementation
-      // for more information:
-      // https://github.com/vercel/next.js/blob/canary/packages/next/src/server/typescript/rules/client-boundary.ts
-      if (
-        propName === 'reset' &&
-        /[\\/](global-)?error\.tsx?$/.test(filename)
-      ) {
-        continue;
-      }
-
+    const violation = findViolation(
+      propType,
+      propName,
+      prop,
+      checker,
+      services.program,
+      options
+    );
+    if (violation) {
       reportInvalidProp(
         prop,
-        propName,
-        'functionNotServerAction',
+        violation,
+        fallbackNode,
+        externalViolations,
         services,
         context
       );
-    } else if (isClassType(propType, checker)) {
-      reportInvalidProp(prop, propName, 'invalidProp', services, context);
     }
   }
+
+  reportExternalViolations(externalViolations, context);
 }
 
+// Types of `@types/react` declaring the props React handles itself, e.g.
+// `RefAttributes<T>` added to the props of `forwardRef` components
+const REACT_ATTRIBUTES_TYPES = new Set([
+  'Attributes',
+  'RefAttributes',
+  'ClassAttributes',
+]);
+
+/**
+ * Whether `prop` is `key` or `ref` as declared by React's types, which are
+ * not passed to the component and that users cannot rename.
+ */
+function isReactAttribute(prop: ts.Symbol): boolean {
+  return (
+    prop
+      .getDeclarations()
+      ?.some(
+        declaration =>
+          declaration.getSourceFile().isDeclarationFile &&
+          ts.isInterfaceDeclaration(declaration.parent) &&
+          REACT_ATTRIBUTES_TYPES.has(declaration.parent.name.text)
+      ) ?? false
+  );
+}
+
+// Violations of props declared outside the linted file, by the node of the
+// linted file they are reported on
+type ExternalViolations = Map<
+  TSESTree.Node,
+  { violation: Violation; propName: string; location: string }[]
+>;
+
+// Most external violations listed in a single report, a props type from a
+// library (e.g. `ComponentProps<'button'>`) may hold hundreds of handlers
+const MAX_LISTED_VIOLATIONS = 5;
+
+/**
+ * Report `violation` on the declaration of the property holding the offending
+ * value. When that declaration is not in the linted file (e.g. the props type
+ * is imported or comes from a library), report on the closest node of the
+ * linted file instead, `fallbackNode` at worst, and name where the property is
+ * declared. Such violations are collected in `externalViolations` to be
+ * reported once per node.
+ */
 function reportInvalidProp(
   prop: ts.Symbol,
-  propName: string,
-  messageId: MessageIds,
-  services: ReturnType<typeof ESLintUtils.getParserServices>,
+  violation: Violation,
+  fallbackNode: TSESTree.Node,
+  externalViolations: ExternalViolations,
+  services: ParserServicesWithTypeInformation,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>
+): void {
+  const holder = violation.holder ?? prop;
+  const data =
+    violation.reason === 'function'
+      ? { path: violation.path, propName: holder.getName() }
+      : { path: violation.path, reason: describeViolation(violation) };
+  const messageId =
+    violation.reason === 'function' ? 'functionNotServerAction' : 'invalidProp';
+
+  const holderDeclaration = getDeclaration(holder);
+  const holderNode =
+    holderDeclaration && services.tsNodeToESTreeNodeMap.get(holderDeclaration);
+  if (holderNode) {
+    context.report({
+      node: holderNode,
+      messageId,
+      data,
+      suggest: getSuggestions(holder, violation, services, context),
+    });
+    return;
+  }
+
+  const propDeclaration = getDeclaration(prop);
+  const node =
+    (propDeclaration && services.tsNodeToESTreeNodeMap.get(propDeclaration)) ||
+    fallbackNode;
+  if (!holderDeclaration) {
+    // Synthetic properties (e.g. from `Record<'a' | 'b', T>`) have no
+    // declaration to point to
+    context.report({ node, messageId, data });
+    return;
+  }
+
+  const violations = externalViolations.get(node) ?? [];
+  violations.push({
+    violation,
+    propName: holder.getName(),
+    location: formatLocation(holderDeclaration, context.cwd),
+  });
+  externalViolations.set(node, violations);
+}
+
+/**
+ * Report the violations of props declared outside the linted file, in a
+ * single report per node listing the first few when there are several.
+ */
+function reportExternalViolations(
+  externalViolations: ExternalViolations,
   context: Readonly<TSESLint.RuleContext<MessageIds, Options>>
 ): void {
-  const propDeclaration = prop.valueDeclaration;
-  if (propDeclaration) {
-    const propNode = services.tsNodeToESTreeNodeMap.get(propDeclaration);
-    if (propNode) {
+  for (const [node, violations] of externalViolations) {
+    if (violations.length > 1) {
+      const listed = violations
+        .slice(0, MAX_LISTED_VIOLATIONS)
+        .map(
+          ({ violation, location }) =>
+            `"${violation.path}" (declared in ${location}): ${describeViolation(violation)}`
+        );
+      const remaining = violations.length - listed.length;
       context.report({
-        node: propNode,
-        messageId,
+        node,
+        messageId: 'externalInvalidProps',
         data: {
-          propName,
+          count: violations.length,
+          props: [
+            ...listed,
+            ...(remaining > 0 ? [`and ${remaining} more`] : []),
+          ].join('; '),
         },
       });
+      continue;
     }
+
+    const [{ violation, propName, location }] = violations;
+    context.report({
+      node,
+      ...(violation.reason === 'function'
+        ? {
+            messageId: 'externalFunctionNotServerAction',
+            data: { path: violation.path, propName, location },
+          }
+        : {
+            messageId: 'externalInvalidProp',
+            data: {
+              path: violation.path,
+              location,
+              reason: describeViolation(violation),
+            },
+          }),
+    });
   }
 }
 
-function isFunctionType(type: ts.Type, checker: ts.TypeChecker): boolean {
-  const signatures = type.getCallSignatures();
-  if (signatures.length > 0) {
-    return true;
+/**
+ * Suggestions fixing `violation`, found in the props declared in the linted
+ * file: renaming function props after Server Actions, and replacing class
+ * instances and built-ins with serializable types.
+ */
+function getSuggestions(
+  holder: ts.Symbol,
+  violation: Violation,
+  services: ParserServicesWithTypeInformation,
+  context: Readonly<TSESLint.RuleContext<MessageIds, Options>>
+): TSESLint.SuggestionReportDescriptor<MessageIds>[] {
+  const checker = services.program.getTypeChecker();
+
+  if (violation.reason === 'function') {
+    const newName = `${holder.getName()}Action`;
+    if (!canRenameProp(holder, newName, services)) {
+      return [];
+    }
+    return [
+      {
+        messageId: 'renameToAction',
+        data: { propName: holder.getName(), newName },
+        fix: fixer =>
+          renamePropReferences(
+            holder,
+            newName,
+            services,
+            context.sourceCode
+          ).map(({ range, text }) => fixer.replaceTextRange(range, text)),
+      },
+    ];
   }
 
-  if (type.isUnion()) {
-    return type.types.some(t => isFunctionType(t, checker));
+  const { type, typeName } = violation;
+  const replacement =
+    type &&
+    (violation.reason === 'classInstance'
+      ? getPlainObjectType(type, checker)
+      : violation.reason === 'builtIn'
+        ? BUILT_IN_REPLACEMENTS.get(typeName ?? '')
+        : undefined);
+  if (!type || !replacement) {
+    return [];
   }
 
-  if (type.isIntersection()) {
-    return type.types.some(t => isFunctionType(t, checker));
+  // Only replace the type when the prop is declared with it, e.g.
+  // `url: URL` or `url?: URL | null` but not `urls: URL[]`
+  const declaration = getDeclaration(holder);
+  const typeNode =
+    declaration &&
+    (ts.isPropertySignature(declaration) ||
+      ts.isPropertyDeclaration(declaration) ||
+      ts.isParameter(declaration))
+      ? declaration.type
+      : undefined;
+  const typeNodes = (
+    typeNode && ts.isUnionTypeNode(typeNode) ? typeNode.types : [typeNode]
+  ).filter(
+    (node): node is ts.TypeNode =>
+      node !== undefined && checker.getTypeFromTypeNode(node) === type
+  );
+  if (typeNodes.length === 0) {
+    return [];
   }
 
-  return false;
+  return [
+    {
+      messageId: 'replaceType',
+      data: { typeName, replacement },
+      fix: fixer =>
+        typeNodes.map(node =>
+          fixer.replaceTextRange([node.getStart(), node.end], replacement)
+        ),
+    },
+  ];
 }
 
-// Built-in types that are serializable in React Server Components
-// Based on: https://react.dev/reference/rsc/use-client#serializable-types
-// Includes types from the Structured Clone Algorithm
-const SERIALIZABLE_BUILT_INS = new Set([
-  'Date',
-  'Map',
-  'Set',
-  'Promise',
-  'RegExp',
-  'Error',
-  'EvalError',
-  'RangeError',
-  'ReferenceError',
-  'SyntaxError',
-  'TypeError',
-  'URIError',
-  'ArrayBuffer',
-  'Int8Array',
-  'Uint8Array',
-  'Uint8ClampedArray',
-  'Int16Array',
-  'Uint16Array',
-  'Int32Array',
-  'Uint32Array',
-  'Float32Array',
-  'Float64Array',
-  'BigInt64Array',
-  'BigUint64Array',
-  'DataView',
-  'Blob',
-  'File',
-  'FileList',
-  'ImageData',
-  'ImageBitmap',
-  'Array',
-  'Object',
+// Serializable types built-ins are usually converted to before being passed
+// as props, e.g. with `url.href` or `Object.fromEntries(headers)`
+const BUILT_IN_REPLACEMENTS = new Map([
+  ['URL', 'string'],
+  ['URLSearchParams', 'Record<string, string>'],
+  ['Headers', 'Record<string, string>'],
 ]);
 
-function isClassType(type: ts.Type, checker: ts.TypeChecker): boolean {
-  // Check if it's a constructor type (typeof Class)
-  const constructSignatures = type.getConstructSignatures();
-  if (constructSignatures.length > 0) {
-    // Check if it's a built-in serializable type
-    if (isSerializableBuiltIn(type)) {
-      return false;
-    }
-    return true;
+/**
+ * Plain-object type with the public data fields of the class instance `type`,
+ * e.g. `Pick<User, 'id' | 'name'>`, if it has any.
+ */
+function getPlainObjectType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): string | undefined {
+  const fields = checker.getPropertiesOfType(type).filter(property => {
+    const declarations = property.getDeclarations() ?? [];
+    return (
+      declarations.length > 0 &&
+      declarations.every(
+        declaration =>
+          (ts.isPropertyDeclaration(declaration) ||
+            ts.isParameter(declaration)) &&
+          !ts.isPrivateIdentifier(declaration.name) &&
+          !(
+            ts.getCombinedModifierFlags(declaration) &
+            (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)
+          ) &&
+          !isFunctionType(
+            checker.getTypeOfSymbolAtLocation(property, declaration),
+            checker
+          )
+      )
+    );
+  });
+  if (fields.length === 0) {
+    return undefined;
   }
 
-  // Check if it's a class instance type
-  const symbol = type.getSymbol();
-  if (symbol) {
-    const declarations = symbol.getDeclarations();
-    if (declarations) {
-      for (const declaration of declarations) {
-        if (ts.isClassDeclaration(declaration)) {
-          // Check if it's a built-in serializable type
-          if (isSerializableBuiltIn(type)) {
-            return false;
-          }
-          return true;
-        }
-      }
-    }
+  return `Pick<${checker.typeToString(type)}, ${fields
+    .map(field => `'${field.getName()}'`)
+    .join(' | ')}>`;
+}
+
+/**
+ * Whether `prop` can be renamed to `newName`: the type declaring it has no
+ * property named `newName` yet and is declared in the linted file, where all
+ * its references can be found.
+ */
+function canRenameProp(
+  prop: ts.Symbol,
+  newName: string,
+  services: ParserServicesWithTypeInformation
+): boolean {
+  const declaration = getDeclaration(prop);
+  return (
+    declaration !== undefined &&
+    services.tsNodeToESTreeNodeMap.has(declaration.parent) &&
+    !services.program
+      .getTypeChecker()
+      .getTypeAtLocation(declaration.parent)
+      .getProperty(newName)
+  );
+}
+
+/**
+ * Edits renaming `prop` to `newName` in the linted file: in its declaration,
+ * property accesses, JSX attributes, destructuring patterns and object
+ * literals. Shorthands keep the name of their variable, e.g. `{ onSubmit }`
+ * becomes `{ onSubmitAction: onSubmit }`.
+ */
+function renamePropReferences(
+  prop: ts.Symbol,
+  newName: string,
+  services: ParserServicesWithTypeInformation,
+  sourceCode: Readonly<TSESLint.SourceCode>
+): { range: [number, number]; text: string }[] {
+  const checker = services.program.getTypeChecker();
+  const sourceFile = services.esTreeNodeToTSNodeMap.get(sourceCode.ast);
+  const name = prop.getName();
+  const declarations = new Set(prop.getDeclarations());
+
+  function isProp(symbol: ts.Symbol | undefined): boolean {
+    return (
+      symbol
+        ?.getDeclarations()
+        ?.some(declaration => declarations.has(declaration)) ?? false
+    );
   }
 
-  if (type.isUnion()) {
-    return type.types.some(t => isClassType(t, checker));
+  // Props of the component rendered by `element`, read from its signature as
+  // attributes are only typed when the JSX types are available
+  function getJsxPropsType(
+    element: ts.JsxOpeningLikeElement
+  ): ts.Type | undefined {
+    const [signature] = checker
+      .getTypeAtLocation(element.tagName)
+      .getCallSignatures();
+    const [propsParam] = signature?.getParameters() ?? [];
+    return propsParam && checker.getTypeOfSymbolAtLocation(propsParam, element);
   }
 
-  if (type.isIntersection()) {
-    return type.types.some(t => isClassType(t, checker));
+  const edits: { range: [number, number]; text: string }[] = [];
+  function visit(node: ts.Node): void {
+    if (ts.isIdentifier(node) && node.text === name) {
+      const start = node.getStart(sourceFile);
+      const parent = node.parent;
+      // Handle: { onSubmit } = props and { onSubmit } passed as props
+      if (
+        (ts.isBindingElement(parent) &&
+          !parent.propertyName &&
+          ts.isObjectBindingPattern(parent.parent) &&
+          isProp(checker.getTypeAtLocation(parent.parent).getProperty(name))) ||
+        (ts.isShorthandPropertyAssignment(parent) &&
+          isProp(checker.getContextualType(parent.parent)?.getProperty(name)))
+      ) {
+        edits.push({ range: [start, start], text: `${newName}: ` });
+      }
+      // Handle: { onSubmit: handler } = props and { onSubmit: handler } passed
+      // as props
+      else if (
+        (ts.isBindingElement(parent) &&
+          parent.propertyName === node &&
+          isProp(checker.getTypeAtLocation(parent.parent).getProperty(name))) ||
+        (ts.isPropertyAssignment(parent) &&
+          parent.name === node &&
+          isProp(
+            checker.getContextualType(parent.parent)?.getProperty(name)
+          )) ||
+        (ts.isJsxAttribute(parent) &&
+          isProp(getJsxPropsType(parent.parent.parent)?.getProperty(name))) ||
+        isProp(checker.getSymbolAtLocation(node))
+      ) {
+        edits.push({ range: [start, node.end], text: newName });
+      }
+    }
+    ts.forEachChild(node, visit);
   }
+  visit(sourceFile);
 
-  return false;
+  return edits;
 }
 
-function isSerializableBuiltIn(type: ts.Type): boolean {
-  const symbol = type.getSymbol();
-  if (!symbol) {
-    return false;
-  }
+function getDeclaration(symbol: ts.Symbol): ts.Declaration | undefined {
+  return symbol.valueDeclaration ?? symbol.getDeclarations()?.[0];
+}
 
-  const name = symbol.getName();
-  return SERIALIZABLE_BUILT_INS.has(name);
+function formatLocation(node: ts.Node, cwd: string): string {
+  const sourceFile = node.getSourceFile();
+  const { line } = sourceFile.getLineAndCharacterOfPosition(node.getStart());
+  return `${relativePath(cwd, sourceFile.fileName)}:${line + 1}`;
 }
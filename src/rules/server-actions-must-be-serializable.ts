@@ -0,0 +1,138 @@
+import { ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective } from '../directives';
+import { getFunctionNode } from '../exports';
+import {
+  createSignatureValidator,
+  isIgnoredFile,
+  resolveSerializabilityOptions,
+  SERIALIZABILITY_SCHEMA_PROPERTIES,
+  type SerializabilityRuleOptions,
+  type SignatureMessageIds,
+} from '../serializability';
+import { createRule } from '../utils';
+
+type MessageIds = SignatureMessageIds;
+type Options = [
+  Pick<
+    SerializabilityRuleOptions,
+    'symbols' | 'ignoreFiles' | 'serializableTypes' | 'nonSerializableTypes'
+  >,
+];
+
+// Server Actions receive form submissions as `FormData`, which React
+// serializes in both directions
+const SERVER_ACTION_SERIALIZABLE_TYPES = ['FormData'];
+
+export const serverActionsMustBeSerializable = createRule<Options, MessageIds>({
+  name: 'server-actions-must-be-serializable',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce serializable arguments and return values for Next.js Server Actions',
+    },
+    messages: {
+      functionParameter:
+        'Server Action arguments must be serializable, "{{path}}" is a function that\'s not a Server Action.',
+      invalidParameter:
+        'Server Action arguments must be serializable, "{{path}}" is invalid: {{reason}}.',
+      functionReturn:
+        'Server Action return values must be serializable, "{{path}}" is a function that\'s not a Server Action.',
+      invalidReturn:
+        'Server Action return values must be serializable, "{{path}}" is invalid: {{reason}}.',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...SERIALIZABILITY_SCHEMA_PROPERTIES,
+          serializableTypes: {
+            ...SERIALIZABILITY_SCHEMA_PROPERTIES.serializableTypes,
+            description:
+              'Names of additional types that are considered serializable, `FormData` always is.',
+          },
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [
+      {
+        symbols: 'next',
+        ignoreFiles: ['**/*.{test,spec}.{js,jsx,ts,tsx}'],
+        serializableTypes: [],
+        nonSerializableTypes: [],
+      },
+    ],
+  },
+  create(context, [options]) {
+    // Skip test files, by default
+    if (isIgnoredFile(context, options)) {
+      return {};
+    }
+
+    const checkOptions = resolveSerializabilityOptions(context, {
+      ...options,
+      serializableTypes: [
+        ...SERVER_ACTION_SERIALIZABLE_TYPES,
+        ...(options.serializableTypes ?? []),
+      ],
+    });
+
+    const validateServerAction = createSignatureValidator(
+      context,
+      checkOptions
+    );
+
+    return {
+      Program(node) {
+        if (!hasDirective(node, 'use server')) {
+          return;
+        }
+
+        // Every exported function of a 'use server' module is a Server Action
+        const services = ESLintUtils.getParserServices(context);
+        const checker = services.program.getTypeChecker();
+        const sourceFile = services.esTreeNodeToTSNodeMap.get(node);
+        const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+        if (!moduleSymbol) {
+          return;
+        }
+
+        for (const exportSymbol of checker.getExportsOfModule(moduleSymbol)) {
+          const symbol =
+            exportSymbol.flags & ts.SymbolFlags.Alias
+              ? checker.getAliasedSymbol(exportSymbol)
+              : exportSymbol;
+          for (const declaration of symbol.getDeclarations() ?? []) {
+            const functionNode = getFunctionNode(declaration);
+            if (functionNode && declaration.getSourceFile() === sourceFile) {
+              validateServerAction(functionNode, services);
+            }
+          }
+        }
+      },
+
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(
+        node:
+          | TSESTree.FunctionDeclaration
+          | TSESTree.FunctionExpression
+          | TSESTree.ArrowFunctionExpression
+      ) {
+        // Handle: async function save() { 'use server'; }
+        if (
+          node.body?.type !== 'BlockStatement' ||
+          !hasDirective(node.body, 'use server')
+        ) {
+          return;
+        }
+
+        const services = ESLintUtils.getParserServices(context);
+        validateServerAction(
+          services.esTreeNodeToTSNodeMap.get(node),
+          services
+        );
+      },
+    };
+  },
+});
@@ -0,0 +1,101 @@
+import { ESLintUtils } from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { hasDirective } from '../directives';
+import { getModuleExports, type ModuleExport } from '../exports';
+import { createRule } from '../utils';
+
+type MessageIds = 'syncFunction' | 'classExport' | 'valueExport';
+type Options = [];
+
+export const serverExportsMustBeAsync = createRule<Options, MessageIds>({
+  name: 'server-exports-must-be-async',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce that Next.js "use server" modules only export async functions',
+    },
+    messages: {
+      syncFunction:
+        'Only async functions can be exported from a "use server" file, "{{name}}" is a function that does not return a Promise.',
+      classExport:
+        'Only async functions can be exported from a "use server" file, "{{name}}" is a class.',
+      valueExport:
+        'Only async functions can be exported from a "use server" file, "{{name}}" is not a function.',
+    },
+    schema: [],
+  },
+  create(context) {
+    return {
+      Program(node) {
+        if (!hasDirective(node, 'use server')) {
+          return;
+        }
+
+        const services = ESLintUtils.getParserServices(context);
+        const checker = services.program.getTypeChecker();
+
+        for (const moduleExport of getModuleExports(node, services)) {
+          const messageId = getViolation(moduleExport, checker);
+          if (!messageId) {
+            continue;
+          }
+
+          // Report on the name of the export when there is one, e.g. `save` in
+          // `export function save() {}`
+          const { declaration, exportAll } = moduleExport;
+          const reportNode = declaration
+            ? services.tsNodeToESTreeNodeMap.get(
+                ts.getNameOfDeclaration(declaration) ?? declaration
+              )
+            : exportAll;
+          if (!reportNode) {
+            continue;
+          }
+
+          context.report({
+            node: reportNode,
+            messageId,
+            data: { name: moduleExport.name },
+          });
+        }
+      },
+    };
+  },
+});
+
+function getViolation(
+  { symbol, type }: ModuleExport,
+  checker: ts.TypeChecker
+): MessageIds | null {
+  // Nothing is known of untyped values
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+    return null;
+  }
+
+  if (symbol.flags & ts.SymbolFlags.Class) {
+    return 'classExport';
+  }
+
+  const signatures = type.getCallSignatures();
+  if (signatures.length === 0) {
+    return type.getConstructSignatures().length > 0
+      ? 'classExport'
+      : 'valueExport';
+  }
+
+  return signatures.every(signature => returnsPromise(signature, checker))
+    ? null
+    : 'syncFunction';
+}
+
+function returnsPromise(
+  signature: ts.Signature,
+  checker: ts.TypeChecker
+): boolean {
+  const returnType = signature.getReturnType();
+  return (
+    (returnType.flags & ts.TypeFlags.Any) !== 0 ||
+    checker.getAwaitedType(returnType) !== returnType
+  );
+}
@@ -0,0 +1,162 @@
+import { TSESTree, type TSESLint } from '@typescript-eslint/utils';
+import { getDirectives } from '../directives';
+import { createRule } from '../utils';
+
+type MessageIds =
+  'misspelledDirective' | 'misplacedDirective' | 'moduleOnlyDirective';
+type Options = [];
+
+// Directives marking a boundary between server and client code
+const BOUNDARY_DIRECTIVES = ['use client', 'use server', 'use cache'];
+
+// Directives that are only valid at the top of a file
+const MODULE_ONLY_DIRECTIVES = new Set(['use client']);
+
+export const validDirectives = createRule<Options, MessageIds>({
+  name: 'valid-directives',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce correctly spelled and placed "use client", "use server" and "use cache" directives',
+    },
+    fixable: 'code',
+    messages: {
+      misspelledDirective:
+        '"{{actual}}" looks like a misspelled "{{expected}}" directive and is ignored.',
+      misplacedDirective:
+        '"{{directive}}" is ignored as a directive unless it is placed at the top of the {{scope}}, before any other statement.',
+      moduleOnlyDirective:
+        '"{{directive}}" is only valid as a directive at the top of a file.',
+    },
+    schema: [],
+  },
+  create(context) {
+    const sourceCode = context.sourceCode;
+
+    function checkStatements(
+      body: readonly TSESTree.ProgramStatement[],
+      scope: 'file' | 'function'
+    ) {
+      const prologue = getDirectives(body);
+      const directives = new Set<TSESTree.Node>(prologue);
+      const declared = new Set(prologue.map(({ directive }) => directive));
+
+      for (const statement of body) {
+        if (
+          statement.type !== 'ExpressionStatement' ||
+          statement.expression.type !== 'Literal' ||
+          typeof statement.expression.value !== 'string'
+        ) {
+          continue;
+        }
+
+        const actual = statement.expression.value;
+        const expected = matchBoundaryDirective(actual);
+        if (!expected) {
+          continue;
+        }
+
+        const quote = statement.expression.raw[0];
+        const text = `${quote}${expected}${quote};`;
+
+        if (scope === 'function' && MODULE_ONLY_DIRECTIVES.has(expected)) {
+          context.report({
+            node: statement,
+            messageId: 'moduleOnlyDirective',
+            data: { directive: expected },
+          });
+        } else if (!directives.has(statement)) {
+          context.report({
+            node: statement,
+            messageId: 'misplacedDirective',
+            data: { directive: expected, scope },
+            // Only remove the statement when the prologue already has the
+            // directive
+            fix: fixer =>
+              declared.has(expected)
+                ? removeStatement(fixer, statement)
+                : [
+                    insertDirective(fixer, body, text),
+                    removeStatement(fixer, statement),
+                  ],
+          });
+        } else if (actual !== expected) {
+          context.report({
+            node: statement,
+            messageId: 'misspelledDirective',
+            data: { actual, expected },
+            fix: fixer => fixer.replaceText(statement, text),
+          });
+        }
+      }
+    }
+
+    /**
+     * Insert the directive `text` before the first statement of `body`, on its
+     * own line when that statement starts a line, e.g. not in
+     * `function save() { const id = 1; }`.
+     */
+    function insertDirective(
+      fixer: TSESLint.RuleFixer,
+      body: readonly TSESTree.ProgramStatement[],
+      text: string
+    ): TSESLint.RuleFix {
+      const [first] = body;
+      const before = sourceCode.getTokenBefore(first, {
+        includeComments: true,
+      });
+      const startsLine = !before || before.loc.end.line < first.loc.start.line;
+      return fixer.insertTextBefore(
+        first,
+        startsLine
+          ? `${text}\n${' '.repeat(first.loc.start.column)}`
+          : `${text} `
+      );
+    }
+
+    /**
+     * Remove `statement` along with the whitespace before it, comments between
+     * the previous statement and `statement` are kept.
+     */
+    function removeStatement(
+      fixer: TSESLint.RuleFixer,
+      statement: TSESTree.ExpressionStatement
+    ): TSESLint.RuleFix {
+      const previous = sourceCode.getTokenBefore(statement, {
+        includeComments: true,
+      });
+      return fixer.removeRange([
+        previous?.range[1] ?? statement.range[0],
+        statement.range[1],
+      ]);
+    }
+
+    return {
+      Program(node) {
+        checkStatements(node.body, 'file');
+      },
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(
+        node:
+          | TSESTree.FunctionDeclaration
+          | TSESTree.FunctionExpression
+          | TSESTree.ArrowFunctionExpression
+      ) {
+        if (node.body?.type === 'BlockStatement') {
+          checkStatements(node.body.body, 'function');
+        }
+      },
+    };
+  },
+});
+
+/**
+ * The boundary directive `value` is, or looks like when misspelled, e.g.
+ * `'use-client'` or `'Use  Client'`.
+ */
+function matchBoundaryDirective(value: string): string | undefined {
+  const normalized = value.toLowerCase().replace(/[^a-z]/g, '');
+  return BOUNDARY_DIRECTIVES.find(
+    directive => directive.replace(' ', '') === normalized
+  );
+}
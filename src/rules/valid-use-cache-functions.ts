@@ -0,0 +1,207 @@
+import { ASTUtils, ESLintUtils, TSESTree } from '@typescript-eslint/utils';
+import { getDirectives } from '../directives';
+import { getFunctionNode, getModuleExports } from '../exports';
+import {
+  createSignatureValidator,
+  isIgnoredFile,
+  resolveSerializabilityOptions,
+  SERIALIZABILITY_SCHEMA_PROPERTIES,
+  type SerializabilityRuleOptions,
+  type SignatureMessageIds,
+} from '../serializability';
+import { createRule } from '../utils';
+
+type MessageIds = SignatureMessageIds | 'requestApi';
+type Options = [
+  Pick<
+    SerializabilityRuleOptions,
+    'symbols' | 'ignoreFiles' | 'serializableTypes' | 'nonSerializableTypes'
+  >,
+];
+
+// APIs of `next/headers` reading the incoming request, which would make the
+// cached result depend on a request that is not part of the cache key
+const REQUEST_APIS = new Set(['cookies', 'headers']);
+
+export const validUseCacheFunctions = createRule<Options, MessageIds>({
+  name: 'valid-use-cache-functions',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Enforce serializable arguments and return values and no request APIs in Next.js "use cache" functions',
+    },
+    messages: {
+      functionParameter:
+        '"use cache" function arguments must be serializable, "{{path}}" is a function that\'s not a Server Action.',
+      invalidParameter:
+        '"use cache" function arguments must be serializable, "{{path}}" is invalid: {{reason}}.',
+      functionReturn:
+        '"use cache" function return values must be serializable, "{{path}}" is a function that\'s not a Server Action.',
+      invalidReturn:
+        '"use cache" function return values must be serializable, "{{path}}" is invalid: {{reason}}.',
+      requestApi:
+        '"{{name}}()" cannot be called in a "use cache" scope, read it outside of the cached function and pass the values it needs as arguments, or use "use cache: private".',
+    },
+    schema: [
+      {
+        type: 'object',
+        properties: {
+          ...SERIALIZABILITY_SCHEMA_PROPERTIES,
+        },
+        additionalProperties: false,
+      },
+    ],
+    defaultOptions: [
+      {
+        symbols: 'next',
+        ignoreFiles: ['**/*.{test,spec}.{js,jsx,ts,tsx}'],
+        serializableTypes: [],
+        nonSerializableTypes: [],
+      },
+    ],
+  },
+  create(context, [options]) {
+    const sourceCode = context.sourceCode;
+
+    // Skip test files, by default
+    if (isIgnoredFile(context, options)) {
+      return {};
+    }
+
+    const checkOptions = resolveSerializabilityOptions(context, options);
+
+    const validateCachedFunction = createSignatureValidator(
+      context,
+      checkOptions
+    );
+
+    let fileDirective: string | undefined;
+
+    /**
+     * Name of the `next/headers` request API called by `node`, e.g. `cookies`
+     * for `cookies()` or `headers.cookies()` with a namespace import.
+     */
+    function getRequestApiName(
+      node: TSESTree.CallExpression
+    ): string | undefined {
+      const scope = sourceCode.getScope(node);
+
+      // Handle: import { cookies } from 'next/headers'
+      if (node.callee.type === 'Identifier') {
+        const definition = ASTUtils.findVariable(scope, node.callee)?.defs[0];
+        return definition?.node.type === 'ImportSpecifier' &&
+          definition.node.parent.type === 'ImportDeclaration' &&
+          definition.node.parent.source.value === 'next/headers' &&
+          definition.node.imported.type === 'Identifier' &&
+          REQUEST_APIS.has(definition.node.imported.name)
+          ? definition.node.imported.name
+          : undefined;
+      }
+
+      // Handle: import * as nextHeaders from 'next/headers'
+      if (
+        node.callee.type === 'MemberExpression' &&
+        !node.callee.computed &&
+        node.callee.object.type === 'Identifier' &&
+        node.callee.property.type === 'Identifier' &&
+        REQUEST_APIS.has(node.callee.property.name)
+      ) {
+        const definition = ASTUtils.findVariable(scope, node.callee.object)
+          ?.defs[0];
+        return definition?.node.type === 'ImportNamespaceSpecifier' &&
+          definition.node.parent.type === 'ImportDeclaration' &&
+          definition.node.parent.source.value === 'next/headers'
+          ? node.callee.property.name
+          : undefined;
+      }
+
+      return undefined;
+    }
+
+    /**
+     * `'use cache'` directive of the innermost cached function around `node`,
+     * or of the file.
+     */
+    function getScopeDirective(node: TSESTree.Node): string | undefined {
+      for (const ancestor of sourceCode.getAncestors(node).reverse()) {
+        if (
+          (ancestor.type === 'FunctionDeclaration' ||
+            ancestor.type === 'FunctionExpression' ||
+            ancestor.type === 'ArrowFunctionExpression') &&
+          ancestor.body.type === 'BlockStatement'
+        ) {
+          const directive = getCacheDirective(ancestor.body);
+          if (directive) {
+            return directive;
+          }
+        }
+      }
+      return fileDirective;
+    }
+
+    return {
+      Program(node) {
+        fileDirective = getCacheDirective(node);
+        if (!fileDirective) {
+          return;
+        }
+
+        // Every exported function of a 'use cache' module is cached
+        const services = ESLintUtils.getParserServices(context);
+        for (const { declaration } of getModuleExports(node, services)) {
+          const functionNode = declaration && getFunctionNode(declaration);
+          if (functionNode) {
+            validateCachedFunction(functionNode, services);
+          }
+        }
+      },
+
+      'FunctionDeclaration, FunctionExpression, ArrowFunctionExpression'(
+        node:
+          | TSESTree.FunctionDeclaration
+          | TSESTree.FunctionExpression
+          | TSESTree.ArrowFunctionExpression
+      ) {
+        // Handle: async function getData() { 'use cache'; }
+        if (
+          node.body.type !== 'BlockStatement' ||
+          !getCacheDirective(node.body)
+        ) {
+          return;
+        }
+
+        const services = ESLintUtils.getParserServices(context);
+        validateCachedFunction(
+          services.esTreeNodeToTSNodeMap.get(node),
+          services
+        );
+      },
+
+      CallExpression(node) {
+        const name = getRequestApiName(node);
+        const directive = name && getScopeDirective(node);
+        // Private caches are keyed by the request
+        if (directive && directive !== 'use cache: private') {
+          context.report({ node, messageId: 'requestApi', data: { name } });
+        }
+      },
+    };
+  },
+});
+
+/**
+ * The `'use cache'` directive of `node`, a program or a function body,
+ * including its variants such as `'use cache: remote'`.
+ */
+function getCacheDirective(
+  node: TSESTree.Program | TSESTree.BlockStatement
+): string | undefined {
+  for (const statement of getDirectives(node.body)) {
+    const value = statement.directive;
+    if (value === 'use cache' || value?.startsWith('use cache:')) {
+      return value;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,780 @@
+import type {
+  JSONSchema,
+  ParserServicesWithTypeInformation,
+  TSESLint,
+} from '@typescript-eslint/utils';
+import ts from 'typescript';
+import { isServerActionDeclaration } from './directives';
+import { matchesAnyGlob } from './utils';
+
+export type ViolationReason =
+  'function' | 'class' | 'classInstance' | 'builtIn' | 'symbol' | 'configured';
+
+export interface Violation {
+  reason: ViolationReason;
+  // Location of the offending value within the props, e.g. `user.onSave` or
+  // `items[number].callback`
+  path: string;
+  // Closest property holding the offending value, if any
+  holder: ts.Symbol | undefined;
+  // Name of the offending type, when relevant to the reason
+  typeName?: string;
+  // Offending class instance or built-in type
+  type?: ts.Type;
+}
+
+// Rule options, resolved for the file being linted
+export interface SerializabilityOptions {
+  symbols: 'next' | 'react';
+  serverActionPatterns: RegExp[];
+  // Function props allowed in this file
+  exemptProps: Set<string>;
+  serializableTypes: Set<string>;
+  nonSerializableTypes: Set<string>;
+}
+
+interface WalkState {
+  checker: ts.TypeChecker;
+  program: ts.Program;
+  options: SerializabilityOptions;
+  // Types already inspected for the current prop, guards against
+  // self-referential types such as `type Tree = { children: Tree[] }`.
+  visited: Set<ts.Type>;
+}
+
+// Generic types may instantiate a new type at each level of nesting (e.g.
+// `interface Box<T> { inner: Box<Box<T>> }`) which the visited set cannot
+// catch, so the walk gives up past this depth.
+const MAX_DEPTH = 32;
+
+const SKIPPED_TYPE_FLAGS =
+  ts.TypeFlags.Any |
+  ts.TypeFlags.Unknown |
+  ts.TypeFlags.Never |
+  ts.TypeFlags.StringLike |
+  ts.TypeFlags.NumberLike |
+  ts.TypeFlags.BigIntLike |
+  ts.TypeFlags.BooleanLike |
+  ts.TypeFlags.EnumLike |
+  ts.TypeFlags.ESSymbolLike |
+  ts.TypeFlags.Null |
+  ts.TypeFlags.Undefined |
+  ts.TypeFlags.Void |
+  ts.TypeFlags.NonPrimitive;
+
+/**
+ * Walk `type` and return the first non-serializable value found in it, if any.
+ * `path` locates `type` within the props and `holder` is the closest property
+ * holding `type`, whose name is used to allow Server Actions nested in
+ * serializable objects. Values that are not held by a property, such as return
+ * values, have no `holder`.
+ */
+export function findViolation(
+  type: ts.Type,
+  path: string,
+  holder: ts.Symbol | undefined,
+  checker: ts.TypeChecker,
+  program: ts.Program,
+  options: SerializabilityOptions
+): Violation | null {
+  return walk(type, path, holder, 0, {
+    checker,
+    program,
+    options,
+    visited: new Set(),
+  });
+}
+
+function walk(
+  type: ts.Type,
+  path: string,
+  holder: ts.Symbol | undefined,
+  depth: number,
+  state: WalkState
+): Violation | null {
+  const { checker } = state;
+
+  if (
+    state.options.symbols === 'react' &&
+    type.flags & ts.TypeFlags.UniqueESSymbol &&
+    isUnregisteredSymbol(type as ts.UniqueESSymbolType)
+  ) {
+    return {
+      reason: 'symbol',
+      path,
+      holder,
+      typeName: (type as ts.UniqueESSymbolType).symbol.getName(),
+    };
+  }
+
+  if (depth > MAX_DEPTH || type.flags & SKIPPED_TYPE_FLAGS) {
+    return null;
+  }
+
+  if (type.flags & ts.TypeFlags.TypeParameter) {
+    const constraint = checker.getBaseConstraintOfType(type);
+    return constraint && constraint !== type
+      ? walk(constraint, path, holder, depth + 1, state)
+      : null;
+  }
+
+  const typeNames = [type.aliasSymbol, type.getSymbol()]
+    .filter(symbol => symbol !== undefined)
+    .map(symbol => symbol.getName());
+  if (
+    typeNames.some(typeName => state.options.serializableTypes.has(typeName))
+  ) {
+    return null;
+  }
+  const configuredTypeName = typeNames.find(typeName =>
+    state.options.nonSerializableTypes.has(typeName)
+  );
+  if (configuredTypeName) {
+    return {
+      reason: 'configured',
+      path,
+      holder,
+      typeName: configuredTypeName,
+    };
+  }
+
+  if (isFunctionType(type, checker)) {
+    if (isServerActionType(type)) {
+      return null;
+    }
+
+    // Fall back to naming conventions when the origin of the function is
+    // unknown, e.g. when the prop is typed as `() => Promise<void>`
+    const name = holder?.getName();
+    if (
+      name !== undefined &&
+      (state.options.serverActionPatterns.some(pattern => pattern.test(name)) ||
+        state.options.exemptProps.has(name))
+    ) {
+      return null;
+    }
+
+    return { reason: 'function', path, holder };
+  }
+
+  // Functions are judged by the name of the property holding them above, so
+  // only the recursion into other types is guarded
+  if (state.visited.has(type)) {
+    return null;
+  }
+  state.visited.add(type);
+
+  if (type.isUnionOrIntersection()) {
+    for (const member of type.types) {
+      const violation = walk(member, path, holder, depth + 1, state);
+      if (violation) return violation;
+    }
+    return null;
+  }
+
+  if (isClassType(type)) {
+    return type.getConstructSignatures().length > 0
+      ? { reason: 'class', path, holder }
+      : {
+          reason: 'classInstance',
+          path,
+          holder,
+          typeName: type.getSymbol()?.getName(),
+          type,
+        };
+  }
+
+  if (isReactElementType(type, checker)) {
+    return null;
+  }
+
+  if (checker.isArrayType(type)) {
+    const [element] = checker.getTypeArguments(type as ts.TypeReference);
+    return walk(element, `${path}[number]`, holder, depth + 1, state);
+  }
+
+  if (checker.isTupleType(type)) {
+    const elements = checker.getTypeArguments(type as ts.TypeReference);
+    for (const [index, element] of elements.entries()) {
+      const violation = walk(
+        element,
+        `${path}[${index}]`,
+        holder,
+        depth + 1,
+        state
+      );
+      if (violation) return violation;
+    }
+    return null;
+  }
+
+  if (isSerializableBuiltIn(type)) {
+    // Containers are only as serializable as what they hold
+    const segments = SERIALIZABLE_CONTAINERS.get(type.getSymbol()!.getName());
+    if (!segments || !isTypeReference(type)) {
+      return null;
+    }
+    const typeArguments = checker.getTypeArguments(type);
+    for (const [index, typeArgument] of typeArguments.entries()) {
+      const violation = walk(
+        typeArgument,
+        `${path}${segments[index] ?? ''}`,
+        holder,
+        depth + 1,
+        state
+      );
+      if (violation) return violation;
+    }
+    return null;
+  }
+
+  if (isNonSerializableBuiltIn(type, state)) {
+    return {
+      reason: 'builtIn',
+      path,
+      holder,
+      typeName: type.getSymbol()?.getName(),
+      type,
+    };
+  }
+
+  for (const member of checker.getPropertiesOfType(type)) {
+    // Members keyed by well-known symbols (e.g. `[Symbol.iterator]`) are
+    // protocols rather than data and are not part of the serialized value.
+    if (member.getName().startsWith('__@')) {
+      continue;
+    }
+    const memberName = member.getName();
+    const violation = walk(
+      checker.getTypeOfSymbol(member),
+      /^[A-Za-z_$][\w$]*$/.test(memberName)
+        ? `${path}.${memberName}`
+        : `${path}[${JSON.stringify(memberName)}]`,
+      member,
+      depth + 1,
+      state
+    );
+    if (violation) return violation;
+  }
+
+  for (const indexInfo of checker.getIndexInfosOfType(type)) {
+    const violation = walk(
+      indexInfo.type,
+      `${path}[${checker.typeToString(indexInfo.keyType)}]`,
+      holder,
+      depth + 1,
+      state
+    );
+    if (violation) return violation;
+  }
+
+  return null;
+}
+
+interface SignatureViolation {
+  kind: 'parameter' | 'return';
+  // The parameter, or the return type annotation or name of the function
+  node: ts.Node;
+  violation: Violation;
+}
+
+/**
+ * Non-serializable values among the parameters and the awaited return value
+ * of the function `node`, for functions called across the network such as
+ * Server Actions. Parameters are located by name, or as `arguments[i]` when
+ * destructured, and the return value as `<return>`.
+ */
+function findSignatureViolations(
+  node: ts.SignatureDeclaration,
+  checker: ts.TypeChecker,
+  program: ts.Program,
+  options: SerializabilityOptions
+): SignatureViolation[] {
+  const violations: SignatureViolation[] = [];
+
+  for (const [index, parameter] of node.parameters.entries()) {
+    // `this` is not an argument
+    if (ts.isIdentifier(parameter.name) && parameter.name.text === 'this') {
+      continue;
+    }
+
+    const holder = ts.isIdentifier(parameter.name)
+      ? checker.getSymbolAtLocation(parameter.name)
+      : undefined;
+    const violation = findViolation(
+      checker.getTypeAtLocation(parameter),
+      holder?.getName() ?? `arguments[${index}]`,
+      holder,
+      checker,
+      program,
+      options
+    );
+    if (violation) {
+      violations.push({ kind: 'parameter', node: parameter, violation });
+    }
+  }
+
+  const signature = checker.getSignatureFromDeclaration(node);
+  if (signature) {
+    const returnType = signature.getReturnType();
+    const violation = findViolation(
+      checker.getAwaitedType(returnType) ?? returnType,
+      '<return>',
+      undefined,
+      checker,
+      program,
+      options
+    );
+    if (violation) {
+      violations.push({
+        kind: 'return',
+        node: node.type ?? node.name ?? node,
+        violation,
+      });
+    }
+  }
+
+  return violations;
+}
+
+// Options of the rules checking serializability, as configured
+export interface SerializabilityRuleOptions {
+  symbols?: 'next' | 'react';
+  serverActionPatterns?: string[];
+  exemptProps?: { files: string[]; props: string[] }[];
+  ignoreFiles?: string[];
+  serializableTypes?: string[];
+  nonSerializableTypes?: string[];
+}
+
+// Schema of the options shared by the rules checking serializability
+export const SERIALIZABILITY_SCHEMA_PROPERTIES = {
+  symbols: {
+    type: 'string',
+    enum: ['next', 'react'],
+    description:
+      'How symbols are checked: "next" allows all symbols like Next.js\' reference implementation, "react" reports symbols that are not registered globally with `Symbol.for()`.',
+  },
+  ignoreFiles: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Globs of files that are not checked.',
+  },
+  serializableTypes: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Names of additional types that are considered serializable.',
+  },
+  nonSerializableTypes: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'Names of additional types that are considered non-serializable.',
+  },
+} satisfies Record<string, JSONSchema.JSONSchema4>;
+
+/**
+ * Whether the file being linted is excluded by the `ignoreFiles` option, test
+ * files by default.
+ */
+export function isIgnoredFile(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  options: SerializabilityRuleOptions
+): boolean {
+  return matchesAnyGlob(
+    context.cwd,
+    context.filename,
+    options.ignoreFiles ?? []
+  );
+}
+
+/**
+ * Resolve the rule `options` for the file being linted, e.g. the props
+ * exempted in this file.
+ */
+export function resolveSerializabilityOptions(
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  options: SerializabilityRuleOptions
+): SerializabilityOptions {
+  return {
+    symbols: options.symbols ?? 'next',
+    serverActionPatterns: (options.serverActionPatterns ?? []).map(
+      pattern => new RegExp(pattern, 'u')
+    ),
+    exemptProps: new Set(
+      (options.exemptProps ?? [])
+        .filter(({ files }) =>
+          matchesAnyGlob(context.cwd, context.filename, files)
+        )
+        .flatMap(({ props }) => props)
+    ),
+    serializableTypes: new Set(options.serializableTypes),
+    nonSerializableTypes: new Set(options.nonSerializableTypes),
+  };
+}
+
+// Messages of the rules checking function signatures, for non-serializable
+// parameters and return values
+export type SignatureMessageIds =
+  'functionParameter' | 'invalidParameter' | 'functionReturn' | 'invalidReturn';
+
+/**
+ * Create a function reporting the non-serializable parameters and return value
+ * of the functions it is given, see `findSignatureViolations`. Each function is
+ * reported once, as a function of a `'use server'` or `'use cache'` module may
+ * also repeat the directive in its body.
+ */
+export function createSignatureValidator<
+  MessageIds extends string,
+  Options extends readonly unknown[],
+>(
+  context: Readonly<
+    TSESLint.RuleContext<MessageIds | SignatureMessageIds, Options>
+  >,
+  options: SerializabilityOptions
+): (
+  node: ts.SignatureDeclaration,
+  services: ParserServicesWithTypeInformation
+) => void {
+  const checked = new Set<ts.SignatureDeclaration>();
+
+  return (node, services) => {
+    if (checked.has(node)) {
+      return;
+    }
+    checked.add(node);
+
+    const violations = findSignatureViolations(
+      node,
+      services.program.getTypeChecker(),
+      services.program,
+      options
+    );
+    for (const { kind, node: reportNode, violation } of violations) {
+      context.report({
+        node: services.tsNodeToESTreeNodeMap.get(reportNode),
+        ...(violation.reason === 'function'
+          ? {
+              messageId:
+                kind === 'parameter' ? 'functionParameter' : 'functionReturn',
+              data: { path: violation.path },
+            }
+          : {
+              messageId:
+                kind === 'parameter' ? 'invalidParameter' : 'invalidReturn',
+              data: {
+                path: violation.path,
+                reason: describeViolation(violation),
+              },
+            }),
+      });
+    }
+  };
+}
+
+export function describeViolation(violation: Violation): string {
+  switch (violation.reason) {
+    case 'function':
+      return 'it is a function';
+    case 'class':
+      return 'it is a class';
+    case 'classInstance':
+      return violation.typeName
+        ? `it is an instance of class "${violation.typeName}"`
+        : 'it is a class instance';
+    case 'builtIn':
+      return `it is an instance of the non-serializable built-in "${violation.typeName}"`;
+    case 'configured':
+      return `"${violation.typeName}" is configured as non-serializable`;
+    case 'symbol':
+      return `symbol "${violation.typeName}" is not registered globally, use Symbol.for() to create it`;
+  }
+}
+
+export function isFunctionType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): boolean {
+  const signatures = type.getCallSignatures();
+  if (signatures.length > 0) {
+    return true;
+  }
+
+  if (type.isUnion()) {
+    return type.types.some(t => isFunctionType(t, checker));
+  }
+
+  if (type.isIntersection()) {
+    return type.types.some(t => isFunctionType(t, checker));
+  }
+
+  return false;
+}
+
+/**
+ * Whether the `unique symbol` type is declared by a variable initialized with
+ * `Symbol()`, which React cannot serialize unlike symbols registered with
+ * `Symbol.for()`. Symbols with no visible initializer are given the benefit of
+ * the doubt.
+ */
+function isUnregisteredSymbol(type: ts.UniqueESSymbolType): boolean {
+  const declaration = type.symbol.valueDeclaration;
+  if (
+    !declaration ||
+    !(
+      ts.isVariableDeclaration(declaration) ||
+      ts.isPropertyDeclaration(declaration)
+    ) ||
+    !declaration.initializer
+  ) {
+    return false;
+  }
+
+  const { initializer } = declaration;
+  return (
+    ts.isCallExpression(initializer) &&
+    ts.isIdentifier(initializer.expression) &&
+    initializer.expression.text === 'Symbol'
+  );
+}
+
+/**
+ * Whether every function in `type` originates from a Server Action, i.e. the
+ * prop is typed after the action itself such as `typeof saveAction`.
+ */
+function isServerActionType(type: ts.Type): boolean {
+  const functionTypes = (
+    type.isUnionOrIntersection() ? type.types : [type]
+  ).filter(member => member.getCallSignatures().length > 0);
+
+  return (
+    functionTypes.length > 0 &&
+    functionTypes.every(
+      member =>
+        member
+          .getSymbol()
+          ?.getDeclarations()
+          ?.some(isServerActionDeclaration) ?? false
+    )
+  );
+}
+
+export function isTypeReference(type: ts.Type): type is ts.TypeReference {
+  return (
+    (type.flags & ts.TypeFlags.Object) !== 0 &&
+    ((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference) !== 0
+  );
+}
+
+// React elements are serialized by React itself, their internals (e.g. the
+// component function in `type`) are never inspected.
+const REACT_ELEMENT_TYPES = new Set(['ReactElement', 'ReactPortal']);
+
+export function isReactElementType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): boolean {
+  if (type.aliasSymbol?.getName() === 'ReactNode') {
+    return true;
+  }
+
+  const symbol = type.getSymbol();
+  if (!symbol) {
+    return false;
+  }
+
+  return (
+    REACT_ELEMENT_TYPES.has(symbol.getName()) ||
+    /(^|\.)JSX\.Element$/.test(checker.getFullyQualifiedName(symbol))
+  );
+}
+
+// Built-in types that are serializable in React Server Components
+// Based on: https://react.dev/reference/rsc/use-client#serializable-types
+// Includes types from the Structured Clone Algorithm
+const SERIALIZABLE_BUILT_INS = new Set([
+  'Date',
+  'Map',
+  'Set',
+  'Promise',
+  'RegExp',
+  'Error',
+  'EvalError',
+  'RangeError',
+  'ReferenceError',
+  'SyntaxError',
+  'TypeError',
+  'URIError',
+  'ArrayBuffer',
+  'Int8Array',
+  'Uint8Array',
+  'Uint8ClampedArray',
+  'Int16Array',
+  'Uint16Array',
+  'Int32Array',
+  'Uint32Array',
+  'Float32Array',
+  'Float64Array',
+  'BigInt64Array',
+  'BigUint64Array',
+  'DataView',
+  'Blob',
+  'File',
+  'FileList',
+  'ImageData',
+  'ImageBitmap',
+  'Array',
+  'Object',
+  'ReadonlyMap',
+  'ReadonlySet',
+  'PromiseLike',
+]);
+
+// Built-in types that are not serializable but which the lib files declare as
+// `interface` + `declare var` rather than as classes, so `isClassType` does not
+// catch them. Built-ins missing from this list are still caught by
+// `isNonSerializableBuiltIn` when their interface declares methods.
+const NON_SERIALIZABLE_BUILT_INS = new Set([
+  'WeakMap',
+  'WeakSet',
+  'WeakRef',
+  'FinalizationRegistry',
+  'Generator',
+  'AsyncGenerator',
+  'URL',
+  'URLSearchParams',
+  'Headers',
+  'Request',
+  'Response',
+  'ReadableStream',
+  'WritableStream',
+  'TransformStream',
+  'AbortController',
+  'AbortSignal',
+  'EventTarget',
+  'Event',
+  'CustomEvent',
+  'Node',
+  'Element',
+  'HTMLElement',
+  'SVGElement',
+  'Document',
+  'DocumentFragment',
+  'Window',
+  'Storage',
+  'Location',
+  'History',
+  'Navigator',
+  'Worker',
+  'MessagePort',
+  'MessageChannel',
+  'BroadcastChannel',
+  'WebSocket',
+  'XMLHttpRequest',
+  'CryptoKey',
+  'MutationObserver',
+  'IntersectionObserver',
+  'ResizeObserver',
+  'TextEncoder',
+  'TextDecoder',
+]);
+
+// Serializable built-ins whose type arguments must be serializable as well,
+// with the path segment used to report each type argument
+const SERIALIZABLE_CONTAINERS = new Map([
+  ['Map', ['<key>', '<value>']],
+  ['ReadonlyMap', ['<key>', '<value>']],
+  ['Set', ['<value>']],
+  ['ReadonlySet', ['<value>']],
+  ['Promise', ['<resolved>']],
+  ['PromiseLike', ['<resolved>']],
+]);
+
+function isClassType(type: ts.Type): boolean {
+  // Check if it's a constructor type (typeof Class)
+  const constructSignatures = type.getConstructSignatures();
+  if (constructSignatures.length > 0) {
+    // Check if it's a built-in serializable type
+    if (isSerializableBuiltIn(type)) {
+      return false;
+    }
+    return true;
+  }
+
+  // Check if it's a class instance type
+  const symbol = type.getSymbol();
+  if (symbol) {
+    const declarations = symbol.getDeclarations();
+    if (declarations) {
+      for (const declaration of declarations) {
+        if (ts.isClassDeclaration(declaration)) {
+          // Check if it's a built-in serializable type
+          if (isSerializableBuiltIn(type)) {
+            return false;
+          }
+          return true;
+        }
+      }
+    }
+  }
+
+  return false;
+}
+
+function isSerializableBuiltIn(type: ts.Type): boolean {
+  const symbol = type.getSymbol();
+  if (!symbol) {
+    return false;
+  }
+
+  const name = symbol.getName();
+  return SERIALIZABLE_BUILT_INS.has(name);
+}
+
+/**
+ * Whether `type` is an instance of a built-in declared in a library, such as
+ * `URL` or `HTMLElement`, which cannot be serialized. Besides the curated
+ * `NON_SERIALIZABLE_BUILT_INS`, any interface from TypeScript's lib files that
+ * declares methods is treated as a non-serializable built-in.
+ */
+function isNonSerializableBuiltIn(type: ts.Type, state: WalkState): boolean {
+  const symbol = type.getSymbol();
+  if (
+    symbol &&
+    NON_SERIALIZABLE_BUILT_INS.has(symbol.getName()) &&
+    symbol
+      .getDeclarations()
+      ?.some(declaration => declaration.getSourceFile().isDeclarationFile)
+  ) {
+    return true;
+  }
+
+  if (!isLibType(type, state.program)) {
+    return false;
+  }
+
+  return state.checker
+    .getPropertiesOfType(type)
+    .some(
+      member =>
+        !member.getName().startsWith('__@') &&
+        isFunctionType(state.checker.getTypeOfSymbol(member), state.checker)
+    );
+}
+
+/**
+ * Whether `type` is an interface or a class declared in TypeScript's lib
+ * files, such as `Date` or `URL`, possibly merged with declarations from
+ * elsewhere such as `@types/node`. The anonymous object types of the lib
+ * files' utility types (e.g. `Partial<T>` or `Record<K, T>`) are not.
+ */
+export function isLibType(type: ts.Type, program: ts.Program): boolean {
+  const symbol = type.getSymbol();
+  return (
+    symbol !== undefined &&
+    (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.Class)) !== 0 &&
+    (symbol.getDeclarations() ?? []).some(declaration =>
+      program.isSourceFileDefaultLibrary(declaration.getSourceFile())
+    )
+  );
+}
@@ -1,4 +1,6 @@
 import { ESLintUtils } from '@typescript-eslint/utils';
+import { minimatch } from 'minimatch';
+import { relative, sep } from 'node:path';
 
 export interface NextUseClientBoundaryDoc {
   description: string;
@@ -10,3 +12,23 @@ export const createRule = ESLintUtils.RuleCreator<NextUseClientBoundaryDoc>(
   name =>
     `https://github.com/sbougerel/eslint-plugin-next-use-client-boundary/blob/main/docs/rules/${name}.md`
 );
+
+/**
+ * Path of `fileName` relative to `cwd`, with forward slashes so that it can be
+ * matched against globs and shown in messages regardless of the platform.
+ */
+export function relativePath(cwd: string, fileName: string): string {
+  return relative(cwd, fileName).split(sep).join('/');
+}
+
+/**
+ * Whether `fileName` matches any of `globs`, globs being relative to `cwd`.
+ */
+export function matchesAnyGlob(
+  cwd: string,
+  fileName: string,
+  globs: readonly string[]
+): boolean {
+  const path = relativePath(cwd, fileName);
+  return globs.some(glob => minimatch(path, glob, { dot: true }));
+}
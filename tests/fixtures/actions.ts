@@ -0,0 +1,9 @@
+'use server';
+
+export async function save(data: FormData): Promise<void> {
+  void data;
+}
+
+export const remove = async (id: string): Promise<void> => {
+  void id;
+};
@@ -0,0 +1,15 @@
+'use client';
+
+export function Button(props: {
+  label: string;
+  onClick?: () => void;
+  action?: (data: FormData) => Promise<void>;
+}) {
+  void props;
+  return null;
+}
+
+export function UserCard(props: { user: { name: string } }) {
+  void props;
+  return null;
+}
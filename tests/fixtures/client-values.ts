@@ -0,0 +1,21 @@
+'use client';
+
+export const MAX_ITEMS = 10;
+
+export enum Status {
+  Active,
+  Archived,
+}
+
+export function formatLabel(label: string): string {
+  return label.toUpperCase();
+}
+
+export function Badge(props: { label: string }) {
+  void props;
+  return null;
+}
+
+export type BadgeProps = { label: string };
+
+export { save } from './actions.js';
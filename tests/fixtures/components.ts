@@ -0,0 +1,4 @@
+export function Button(props: { label: string; onPress: () => void }) {
+  void props;
+  return null;
+}
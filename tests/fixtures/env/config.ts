@@ -0,0 +1,4 @@
+export const config = {
+  apiUrl: process.env.NEXT_PUBLIC_API_URL,
+  databaseUrl: process.env.DATABASE_URL,
+};
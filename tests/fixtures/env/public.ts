@@ -0,0 +1,4 @@
+const { NEXT_PUBLIC_API_URL } = process.env;
+
+export const apiUrl = NEXT_PUBLIC_API_URL;
+export const isProduction = process.env.NODE_ENV === 'production';
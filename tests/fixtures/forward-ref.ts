@@ -0,0 +1,10 @@
+'use client';
+
+import { forwardRef } from './react';
+
+export default forwardRef<HTMLInputElement, { label: string }>(
+  function Input(props) {
+    void props;
+    return null;
+  }
+);
@@ -0,0 +1,8 @@
+export async function publish(id: string): Promise<void> {
+  'use server';
+  void id;
+}
+
+export async function onAction(id: string): Promise<void> {
+  void id;
+}
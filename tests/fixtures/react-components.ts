@@ -0,0 +1,17 @@
+'use client';
+
+import { forwardRef, lazy, memo, type ReactNode } from './react';
+
+export function Card(props: { children: ReactNode }): ReactNode {
+  return props.children;
+}
+
+export const Input = forwardRef<HTMLInputElement, { label: string }>(
+  function Input(props) {
+    return props.label;
+  }
+);
+
+export const MemoCard = memo(Card);
+
+export const LazyInput = lazy(async () => ({ default: Input }));
@@ -0,0 +1,93 @@
+// Minimal declarations of the React APIs used by the fixtures, modeled after
+// `@types/react`
+
+export type Key = string | number | bigint;
+
+export interface ReactElement<P = unknown> {
+  type: unknown;
+  props: P;
+  key: string | null;
+}
+
+type AwaitedReactNode =
+  | ReactElement
+  | string
+  | number
+  | bigint
+  | Iterable<ReactNode>
+  | boolean
+  | null
+  | undefined;
+
+export type ReactNode = AwaitedReactNode | Promise<AwaitedReactNode>;
+
+export interface RefObject<T> {
+  current: T;
+}
+export type RefCallback<T> = (instance: T | null) => void;
+export type Ref<T> = RefCallback<T> | RefObject<T | null> | null;
+export type ForwardedRef<T> = Ref<T>;
+
+export interface Attributes {
+  key?: Key | null;
+}
+export interface RefAttributes<T> extends Attributes {
+  ref?: Ref<T>;
+}
+
+export type PropsWithoutRef<P> = P extends unknown
+  ? 'ref' extends keyof P
+    ? Omit<P, 'ref'>
+    : P
+  : P;
+
+export interface FunctionComponent<P = object> {
+  (props: P): ReactNode;
+  displayName?: string;
+}
+export type ComponentType<P = object> = FunctionComponent<P>;
+export type ComponentPropsWithRef<T> = T extends (props: infer P) => ReactNode
+  ? P
+  : never;
+
+export interface ExoticComponent<P = object> {
+  (props: P): ReactNode;
+  readonly $$typeof: symbol;
+}
+export interface NamedExoticComponent<P = object> extends ExoticComponent<P> {
+  displayName?: string;
+}
+export interface ForwardRefExoticComponent<P> extends NamedExoticComponent<P> {
+  defaultProps?: Partial<P>;
+}
+export type MemoExoticComponent<T extends ComponentType<never>> =
+  NamedExoticComponent<ComponentPropsWithRef<T>> & { readonly type: T };
+export type LazyExoticComponent<T extends ComponentType<never>> =
+  ExoticComponent<ComponentPropsWithRef<T>> & { readonly _result: T };
+
+export function forwardRef<T, P = object>(
+  render: (props: P, ref: ForwardedRef<T>) => ReactNode
+): ForwardRefExoticComponent<PropsWithoutRef<P> & RefAttributes<T>>;
+export function memo<T extends ComponentType<never>>(
+  component: T
+): MemoExoticComponent<T>;
+export function lazy<T extends ComponentType<never>>(
+  load: () => Promise<{ default: T }>
+): LazyExoticComponent<T>;
+
+export interface Provider<T> {
+  (props: { value: T; children?: ReactNode }): ReactNode;
+  readonly $$typeof: symbol;
+}
+export interface Consumer<T> {
+  (props: { children: (value: T) => ReactNode }): ReactNode;
+  readonly $$typeof: symbol;
+}
+export interface Context<T> {
+  Provider: Provider<T>;
+  Consumer: Consumer<T>;
+  displayName?: string;
+}
+
+export function createContext<T>(defaultValue: T): Context<T>;
+export function useContext<T>(context: Context<T>): T;
@@ -0,0 +1,7 @@
+'use server';
+
+import { db } from './db.js';
+
+export async function search(term: string): Promise<string> {
+  return db.query(term);
+}
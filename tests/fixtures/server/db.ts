@@ -0,0 +1,7 @@
+import 'server-only';
+
+export const db = {
+  query(sql: string) {
+    return sql;
+  },
+};
@@ -0,0 +1,9 @@
+'use client';
+
+import { createContext, useContext } from './react';
+
+export const ThemeContext = createContext('light');
+
+export function useTheme(): string {
+  return useContext(ThemeContext);
+}
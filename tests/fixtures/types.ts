@@ -0,0 +1,19 @@
+export interface ButtonProps {
+  label: string;
+  onPress: () => void;
+}
+
+export class Session {
+  id = '';
+}
+
+export interface CardProps {
+  title: string;
+  session: Session;
+}
+
+export interface FieldProps {
+  name: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+}
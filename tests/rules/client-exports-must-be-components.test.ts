@@ -0,0 +1,304 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { clientExportsMustBeComponents } from '../../src/rules/client-exports-must-be-components';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run(
+  'client-exports-must-be-components',
+  clientExportsMustBeComponents,
+  {
+    valid: [
+      {
+        name: 'function components',
+        code: `
+          'use client';
+
+          export function Button(props: { label: string }) {
+            return <button>{props.label}</button>;
+          }
+
+          export const Label = ({ text }: { text: string }) => text;
+
+          export default function Page() {
+            return null;
+          }
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'components returning unions, arrays and Promises',
+        code: `
+          'use client';
+
+          export function List(props: { items: string[] }): (string | null)[] {
+            return props.items;
+          }
+
+          export async function Slow(): Promise<number | undefined> {
+            return undefined;
+          }
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'components returning ReactNode and exotic components',
+        code: `
+          'use client';
+
+          import { forwardRef, lazy, memo, type ReactNode } from './tests/fixtures/react';
+
+          export function Card(props: { children: ReactNode }): ReactNode {
+            return props.children;
+          }
+
+          export async function Slow(): Promise<ReactNode> {
+            return null;
+          }
+
+          export function Rows(props: { rows: string[] }): Iterable<ReactNode> {
+            return props.rows;
+          }
+
+          export const Input = forwardRef<HTMLInputElement, { label: string }>(
+            function Input(props) {
+              return props.label;
+            }
+          );
+
+          export const MemoCard = memo(Card);
+
+          export const LazyInput = lazy(async () => ({ default: Input }));
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'class components',
+        code: `
+          'use client';
+
+          export class Counter {
+            render() {
+              return null;
+            }
+          }
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'hooks and contexts',
+        code: `
+          'use client';
+
+          import { createContext, useContext } from './tests/fixtures/react';
+
+          export const ThemeContext = createContext('light');
+
+          export function useTheme() {
+            return useContext(ThemeContext);
+          }
+
+          export const useDarkMode = () => useTheme() === 'dark';
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'types and re-exported Server Actions',
+        code: `
+          'use client';
+
+          export type Props = { label: string };
+          export interface State {
+            count: number;
+          }
+          export { save } from './tests/fixtures/actions';
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'untyped exports',
+        code: `
+          'use client';
+
+          declare const config: any;
+
+          export { config };
+        `,
+        filename: 'component.tsx',
+      },
+      {
+        name: 'values exported from a module without use client',
+        code: `
+          export const MAX_ITEMS = 10;
+
+          export function formatLabel(label: string) {
+            return label.toUpperCase();
+          }
+        `,
+        filename: 'component.tsx',
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'constants, enums and helper functions',
+        code: `
+          'use client';
+
+          export const MAX_ITEMS = 10;
+
+          export enum Status {
+            Active,
+            Archived,
+          }
+
+          export function formatLabel(label: string) {
+            return label.toUpperCase();
+          }
+
+          export function Badge(props: { label: string }) {
+            return null;
+          }
+        `,
+        filename: 'component.tsx',
+        errors: [
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'MAX_ITEMS' },
+            line: 4,
+            column: 24,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'Status' },
+            line: 6,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'formatLabel' },
+            line: 11,
+          },
+        ],
+      },
+      {
+        name: 'PascalCase values that are not components',
+        code: `
+          'use client';
+
+          export const Schema = { parse: (value: unknown) => String(value) };
+
+          export function CreateStore() {
+            return { count: 0 };
+          }
+
+          export class Store {
+            count = 0;
+          }
+        `,
+        filename: 'component.tsx',
+        errors: [
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'Schema' },
+            line: 4,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'CreateStore' },
+            line: 6,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'Store' },
+            line: 10,
+          },
+        ],
+      },
+      {
+        name: 'functions returning iterables and Promises of values that are not rendered',
+        code: `
+          'use client';
+
+          export function Rows(): Iterable<{ id: string }> {
+            return [];
+          }
+
+          export async function Load(): Promise<{ id: string }> {
+            return { id: '' };
+          }
+        `,
+        filename: 'component.tsx',
+        errors: [
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'Rows' },
+            line: 4,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'Load' },
+            line: 8,
+          },
+        ],
+      },
+      {
+        name: 'default exported values and values named like hooks',
+        code: `
+          'use client';
+
+          export const useCache = true;
+
+          export default { theme: 'dark' };
+        `,
+        filename: 'component.tsx',
+        errors: [
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'useCache' },
+            line: 4,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'default' },
+            line: 6,
+          },
+        ],
+      },
+      {
+        name: 'values re-exported from another module',
+        code: `
+          'use client';
+
+          export { formatPrice } from './tests/fixtures/format';
+          export * from './tests/fixtures/helpers';
+        `,
+        filename: 'component.tsx',
+        errors: [
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'formatPrice' },
+            line: 4,
+          },
+          {
+            messageId: 'nonComponentExport',
+            data: { name: 'formatDate' },
+            line: 5,
+          },
+        ],
+      },
+    ],
+  }
+);
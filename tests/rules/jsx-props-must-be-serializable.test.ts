@@ -0,0 +1,283 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { jsxPropsMustBeSerializable } from '../../src/rules/jsx-props-must-be-serializable';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('jsx-props-must-be-serializable', jsxPropsMustBeSerializable, {
+  valid: [
+    {
+      name: 'serializable props passed to a client component',
+      code: `
+        import { Button, UserCard } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          const name = 'Ada';
+          return (
+            <>
+              <Button label="Save" />
+              <UserCard user={{ name }} />
+            </>
+          );
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'Server Action imported from a use server module',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+        import { save } from '../tests/fixtures/actions';
+
+        export default function Page() {
+          return <Button label="Save" action={save} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'bound Server Action',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+        import { remove } from '../tests/fixtures/actions';
+
+        export default function Page({ id }: { id: string }) {
+          return <Button label="Delete" onClick={remove.bind(null, id)} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'inline Server Action',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          async function submit(data: FormData) {
+            'use server';
+            void data;
+          }
+          return <Button label="Save" action={submit} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'function passed to a component that is not a client component',
+      code: `
+        import { Button } from '../tests/fixtures/components';
+
+        export default function Page() {
+          return <Button label="Save" onPress={() => {}} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'function passed from a client module',
+      code: `
+        'use client';
+
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Toolbar() {
+          return <Button label="Save" onClick={() => {}} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'function passed to an intrinsic element',
+      code: `
+        export default function Page() {
+          return <form action={() => {}} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+    },
+    {
+      name: 'function allowed by a Server Action pattern',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page({ action }: { action: (data: FormData) => Promise<void> }) {
+          return <Button label="Save" action={action} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      options: [{ serverActionPatterns: ['^action$'] }],
+    },
+    {
+      name: 'files outside of the App Router are ignored',
+      code: `
+        import { Button } from './tests/fixtures/client-components';
+
+        export function Toolbar() {
+          return <Button label="Save" onClick={() => {}} />;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'test files are ignored',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          return <Button label="Save" onClick={() => {}} />;
+        }
+      `,
+      filename: 'app/page.test.tsx',
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'event handler passed to a client component',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          return <Button label="Save" onClick={() => console.log('saved')} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'Button', path: 'onClick' },
+          line: 5,
+        },
+      ],
+    },
+    {
+      name: 'class instance passed to a client component',
+      code: `
+        import { UserCard } from '../tests/fixtures/client-components';
+
+        class User {
+          name = 'Ada';
+        }
+
+        export default function Page() {
+          return <UserCard user={new User()} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            component: 'UserCard',
+            path: 'user',
+            reason: 'it is an instance of class "User"',
+          },
+        },
+      ],
+    },
+    {
+      name: 'function nested in an object',
+      code: `
+        import { UserCard } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          const user = { name: 'Ada', greet: () => 'Hello' };
+          return <UserCard user={user} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'UserCard', path: 'user.greet' },
+        },
+      ],
+    },
+    {
+      name: 'function in spread props',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          const props = { label: 'Save', onClick: () => {} };
+          return <Button {...props} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'Button', path: 'onClick' },
+        },
+      ],
+    },
+    {
+      name: 'client component used through a namespace import',
+      code: `
+        import * as UI from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          return <UI.Button label="Save" onClick={() => {}} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'UI.Button', path: 'onClick' },
+        },
+      ],
+    },
+    {
+      name: 'files configured as Server Components',
+      code: `
+        import { Button } from './tests/fixtures/client-components';
+
+        export function Toolbar() {
+          return <Button label="Save" onClick={() => {}} />;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ files: ['**/*.tsx'] }],
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'Button', path: 'onClick' },
+        },
+      ],
+    },
+    {
+      name: 'function named like a Server Action',
+      code: `
+        import { Button } from '../tests/fixtures/client-components';
+
+        export default function Page() {
+          async function action(data: FormData) {
+            void data;
+          }
+          return <Button label="Save" action={action} />;
+        }
+      `,
+      filename: 'app/page.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { component: 'Button', path: 'action' },
+        },
+      ],
+    },
+  ],
+});
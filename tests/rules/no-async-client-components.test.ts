@@ -0,0 +1,165 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noAsyncClientComponents } from '../../src/rules/no-async-client-components';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('no-async-client-components', noAsyncClientComponents, {
+  valid: [
+    {
+      name: 'synchronous client component',
+      code: `
+        'use client';
+
+        export default function Component() {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'async server component',
+      code: `
+        export default async function Page() {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'async function that is not a component',
+      code: `
+        'use client';
+
+        export async function fetchUser(id: string) {
+          return { id };
+        }
+
+        export const loadUser = async (id: string) => ({ id });
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'component that may return a Promise',
+      code: `
+        'use client';
+
+        export function Component(props: { value: string | Promise<string> }) {
+          return props.value;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'async functions inside a client component',
+      code: `
+        'use client';
+
+        export const Component = () => {
+          const onClick = async () => {};
+          return null;
+        };
+      `,
+      filename: 'component.tsx',
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'async default export',
+      code: `
+        'use client';
+
+        export default async function Profile() {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'asyncComponent',
+          data: { name: 'Profile' },
+          line: 4,
+          column: 39,
+        },
+      ],
+    },
+    {
+      name: 'async arrow function',
+      code: `
+        'use client';
+
+        export const Profile = async () => null;
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'asyncComponent', data: { name: 'Profile' } }],
+    },
+    {
+      name: 'anonymous async default export',
+      code: `
+        'use client';
+
+        export default async () => null;
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'asyncComponent', data: { name: 'default' } }],
+    },
+    {
+      name: 'exported specifier',
+      code: `
+        'use client';
+
+        const Profile = async function () {
+          return null;
+        };
+
+        export { Profile };
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'asyncComponent', data: { name: 'Profile' } }],
+    },
+    {
+      name: 'memo wrapping an async component',
+      code: `
+        'use client';
+
+        import { memo } from 'react';
+
+        export const Profile = memo(async function ProfileCard() {
+          return null;
+        });
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'asyncComponent', data: { name: 'ProfileCard' } }],
+    },
+    {
+      name: 'component returning a Promise',
+      code: `
+        'use client';
+
+        async function load() {
+          return null;
+        }
+
+        export function Profile() {
+          return load();
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'promiseComponent', data: { name: 'Profile' } }],
+    },
+  ],
+});
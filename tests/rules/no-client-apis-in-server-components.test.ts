@@ -0,0 +1,282 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noClientApisInServerComponents } from '../../src/rules/no-client-apis-in-server-components';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester();
+
+ruleTester.run(
+  'no-client-apis-in-server-components',
+  noClientApisInServerComponents,
+  {
+    valid: [
+      {
+        name: 'client component in the App Router',
+        code: `
+          'use client';
+
+          import { useState } from 'react';
+
+          export default function Counter() {
+            const [count, setCount] = useState(0);
+            return <button onClick={() => setCount(count + 1)}>{count}</button>;
+          }
+        `,
+        filename: 'app/counter.tsx',
+      },
+      {
+        name: 'server component using server APIs',
+        code: `
+          import { use, useId, cache } from 'react';
+          import { Button } from './button';
+
+          export default async function Page() {
+            const id = useId();
+            return <Button id={id} onClick={undefined} />;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'file outside of the App Router',
+        code: `
+          import { useState } from 'react';
+
+          export function useCounter() {
+            return useState(0);
+          }
+        `,
+        filename: 'hooks/counter.ts',
+      },
+      {
+        name: 'typeof guard and shadowed globals',
+        code: `
+          export function isBrowser(window?: Window) {
+            return typeof document !== 'undefined' && window !== undefined;
+          }
+        `,
+        filename: 'app/utils.ts',
+      },
+      {
+        name: 'string event handler attribute',
+        code: `
+          export default function Page() {
+            return <div onClick="void 0" />;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'custom App Router location',
+        code: `
+          import { useState } from 'react';
+
+          export default function Page() {
+            const [value] = useState(0);
+            return value;
+          }
+        `,
+        filename: 'app/page.tsx',
+        options: [{ files: ['src/app/**'] }],
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'hooks in a server component',
+        code: `import { useEffect, useState } from 'react';
+
+export default function Page() {
+  const [count] = useState(0);
+  useEffect(() => {}, []);
+  return count;
+}
+`,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'clientHook',
+            data: { name: 'useState' },
+            line: 4,
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+import { useEffect, useState } from 'react';
+
+export default function Page() {
+  const [count] = useState(0);
+  useEffect(() => {}, []);
+  return count;
+}
+`,
+              },
+            ],
+          },
+          {
+            messageId: 'clientHook',
+            data: { name: 'useEffect' },
+            line: 5,
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+import { useEffect, useState } from 'react';
+
+export default function Page() {
+  const [count] = useState(0);
+  useEffect(() => {}, []);
+  return count;
+}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'namespaced hook and context',
+        code: `import * as React from 'react';
+
+export const ThemeContext = React.createContext('light');
+
+export function useTheme() {
+  return React.useContext(ThemeContext);
+}
+`,
+        filename: 'src/app/theme.ts',
+        errors: [
+          {
+            messageId: 'createContext',
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+import * as React from 'react';
+
+export const ThemeContext = React.createContext('light');
+
+export function useTheme() {
+  return React.useContext(ThemeContext);
+}
+`,
+              },
+            ],
+          },
+          {
+            messageId: 'clientHook',
+            data: { name: 'useContext' },
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+import * as React from 'react';
+
+export const ThemeContext = React.createContext('light');
+
+export function useTheme() {
+  return React.useContext(ThemeContext);
+}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'browser globals',
+        code: `export default function Page() {
+  return window.innerWidth > document.body.clientWidth;
+}
+`,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'browserGlobal',
+            data: { name: 'window' },
+            column: 10,
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+export default function Page() {
+  return window.innerWidth > document.body.clientWidth;
+}
+`,
+              },
+            ],
+          },
+          {
+            messageId: 'browserGlobal',
+            data: { name: 'document' },
+            column: 30,
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+export default function Page() {
+  return window.innerWidth > document.body.clientWidth;
+}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'event handler on a DOM element',
+        code: `export default function Page() {
+  return <button onClick={() => alert('hi')}>Hi</button>;
+}
+`,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'eventHandler',
+            data: { name: 'onClick' },
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+export default function Page() {
+  return <button onClick={() => alert('hi')}>Hi</button>;
+}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'client-only import',
+        code: `import 'client-only';
+`,
+        filename: 'app/analytics.ts',
+        errors: [
+          {
+            messageId: 'clientOnlyImport',
+            suggestions: [
+              {
+                messageId: 'addUseClient',
+                output: `'use client';
+
+import 'client-only';
+`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  }
+);
@@ -0,0 +1,190 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noClientValuesInServerComponents } from '../../src/rules/no-client-values-in-server-components';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run(
+  'no-client-values-in-server-components',
+  noClientValuesInServerComponents,
+  {
+    valid: [
+      {
+        name: 'components and Server Actions imported from a client module',
+        code: `
+          import { Badge, save } from '../tests/fixtures/client-values';
+
+          export default function Page() {
+            return <Badge label="New" action={save} />;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'exotic components imported from a client module',
+        code: `
+          import {
+            Card,
+            Input,
+            LazyInput,
+            MemoCard,
+          } from '../tests/fixtures/react-components';
+
+          export default function Page() {
+            return (
+              <MemoCard>
+                <Card>
+                  <Input label="Name" />
+                  <LazyInput label="Email" />
+                </Card>
+              </MemoCard>
+            );
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'values only used as types',
+        code: `
+          import { Status, type BadgeProps } from '../tests/fixtures/client-values';
+          import type { MAX_ITEMS } from '../tests/fixtures/client-values';
+
+          export function getStatus(props: BadgeProps): Status | undefined {
+            return undefined;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'values imported in a client module',
+        code: `
+          'use client';
+
+          import { MAX_ITEMS, formatLabel } from '../tests/fixtures/client-values';
+
+          export const label = formatLabel(String(MAX_ITEMS));
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'values imported from a module without use client',
+        code: `
+          import { formatPrice } from '../tests/fixtures/format';
+
+          export const price = formatPrice(10);
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'files outside of the App Router',
+        code: `
+          import { MAX_ITEMS } from './tests/fixtures/client-values';
+
+          export const limit = MAX_ITEMS;
+        `,
+        filename: 'component.tsx',
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'values imported from a client module',
+        code: `
+          import {
+            MAX_ITEMS,
+            Status,
+            formatLabel as format,
+          } from '../tests/fixtures/client-values';
+
+          export default function Page() {
+            const label = format('items');
+            return MAX_ITEMS > 0 && Status.Active === 0 ? label : null;
+          }
+        `,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'clientValue',
+            data: {
+              name: 'MAX_ITEMS',
+              module: '../tests/fixtures/client-values',
+            },
+            line: 3,
+          },
+          {
+            messageId: 'clientValue',
+            data: {
+              name: 'Status',
+              module: '../tests/fixtures/client-values',
+            },
+            line: 4,
+          },
+          {
+            messageId: 'clientValue',
+            data: {
+              name: 'formatLabel',
+              module: '../tests/fixtures/client-values',
+            },
+            line: 5,
+            column: 13,
+          },
+        ],
+      },
+      {
+        name: 'hooks and contexts imported from a client module',
+        code: `
+          import { ThemeContext, useTheme } from '../tests/fixtures/theme';
+
+          export default function Page() {
+            return ThemeContext.displayName ?? useTheme();
+          }
+        `,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'clientValue',
+            data: { name: 'ThemeContext', module: '../tests/fixtures/theme' },
+            column: 20,
+          },
+          {
+            messageId: 'clientValue',
+            data: { name: 'useTheme', module: '../tests/fixtures/theme' },
+            column: 34,
+          },
+        ],
+      },
+      {
+        name: 'files configured as Server Components',
+        code: `
+          import { MAX_ITEMS } from './tests/fixtures/client-values';
+
+          export const limit = MAX_ITEMS;
+        `,
+        filename: 'component.tsx',
+        options: [{ files: ['*.tsx'] }],
+        errors: [
+          {
+            messageId: 'clientValue',
+            data: {
+              name: 'MAX_ITEMS',
+              module: './tests/fixtures/client-values',
+            },
+          },
+        ],
+      },
+    ],
+  }
+);
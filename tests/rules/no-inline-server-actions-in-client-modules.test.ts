@@ -0,0 +1,102 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noInlineServerActionsInClientModules } from '../../src/rules/no-inline-server-actions-in-client-modules';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester();
+
+ruleTester.run(
+  'no-inline-server-actions-in-client-modules',
+  noInlineServerActionsInClientModules,
+  {
+    valid: [
+      {
+        name: 'inline Server Action in a Server Component',
+        code: `
+          export default function Page() {
+            async function save(data: FormData) {
+              'use server';
+            }
+            return <form action={save} />;
+          }
+        `,
+        filename: 'page.tsx',
+      },
+      {
+        name: 'Server Action imported in a client module',
+        code: `
+          'use client';
+
+          import { save } from './actions';
+
+          export function Form() {
+            return <form action={save} />;
+          }
+        `,
+        filename: 'form.tsx',
+      },
+      {
+        name: 'use server that is not a directive',
+        code: `
+          'use client';
+
+          export function Form() {
+            const save = () => {
+              console.log('saving');
+              ('use server');
+            };
+            return <form action={save} />;
+          }
+        `,
+        filename: 'form.tsx',
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'inline Server Action in a client component',
+        code: `
+          'use client';
+
+          export function Form() {
+            async function save(data: FormData) {
+              'use server';
+            }
+            return <form action={save} />;
+          }
+        `,
+        filename: 'form.tsx',
+        errors: [{ messageId: 'inlineServerAction', line: 6, column: 15 }],
+      },
+      {
+        name: 'inline Server Actions as expressions',
+        code: `
+          'use client';
+
+          export const save = async () => {
+            'use strict';
+            'use server';
+          };
+
+          export function Form() {
+            return (
+              <form
+                action={async function submit() {
+                  'use server';
+                }}
+              />
+            );
+          }
+        `,
+        filename: 'form.tsx',
+        errors: [
+          { messageId: 'inlineServerAction', line: 6 },
+          { messageId: 'inlineServerAction', line: 13 },
+        ],
+      },
+    ],
+  }
+);
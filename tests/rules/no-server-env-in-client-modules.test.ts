@@ -0,0 +1,178 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noServerEnvInClientModules } from '../../src/rules/no-server-env-in-client-modules';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('no-server-env-in-client-modules', noServerEnvInClientModules, {
+  valid: [
+    {
+      name: 'public variables in a client module',
+      code: `
+        'use client';
+
+        import { apiUrl } from './tests/fixtures/env/public';
+
+        const url = process.env.NEXT_PUBLIC_API_URL;
+        const { NEXT_PUBLIC_SITE_NAME: siteName } = process.env;
+        const isDev = process.env['NODE_ENV'] === 'development';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'server variables in a server module',
+      code: `
+        import { config } from './tests/fixtures/env';
+
+        const url = process.env.DATABASE_URL;
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'dynamic reads and rest elements',
+      code: `
+        'use client';
+
+        declare const key: string;
+
+        const value = process.env[key];
+        const { ...env } = process.env;
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'type-only imports',
+      code: `
+        'use client';
+
+        import type { config } from './tests/fixtures/env/config';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'allowed variables',
+      code: `
+        'use client';
+
+        import { config } from './tests/fixtures/env/config';
+
+        const version = process.env.APP_VERSION;
+      `,
+      filename: 'component.tsx',
+      options: [{ allow: ['APP_VERSION', 'DATABASE_URL'] }],
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'server variable read in a client module',
+      code: `
+        'use client';
+
+        const url = process.env.DATABASE_URL;
+        const secret = process.env['API_SECRET'];
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'serverEnv',
+          data: { name: 'DATABASE_URL' },
+          line: 4,
+          column: 21,
+        },
+        {
+          messageId: 'serverEnv',
+          data: { name: 'API_SECRET' },
+          line: 5,
+        },
+      ],
+    },
+    {
+      name: 'server variables destructured in a client module',
+      code: `
+        'use client';
+
+        const { DATABASE_URL, API_SECRET: secret, NEXT_PUBLIC_API_URL } =
+          process.env;
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'serverEnv',
+          data: { name: 'DATABASE_URL' },
+          line: 4,
+          column: 17,
+        },
+        {
+          messageId: 'serverEnv',
+          data: { name: 'API_SECRET' },
+          line: 4,
+          column: 31,
+        },
+      ],
+    },
+    {
+      name: 'NODE_ENV is not allowed when the allow-list is replaced',
+      code: `
+        'use client';
+
+        const isDev = process.env.NODE_ENV === 'development';
+      `,
+      filename: 'component.tsx',
+      options: [{ allow: [] }],
+      errors: [{ messageId: 'serverEnv', data: { name: 'NODE_ENV' } }],
+    },
+    {
+      name: 'server variable read by an imported module',
+      code: `
+        'use client';
+
+        import { config } from './tests/fixtures/env/config';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'transitiveServerEnv',
+          data: {
+            name: 'DATABASE_URL',
+            chain: './tests/fixtures/env/config',
+          },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: 'server variable read through a barrel',
+      code: `
+        'use client';
+
+        import { apiUrl } from './tests/fixtures/env/public';
+        export { config } from './tests/fixtures/env';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'transitiveServerEnv',
+          data: {
+            name: 'DATABASE_URL',
+            chain: './tests/fixtures/env → tests/fixtures/env/config.ts',
+          },
+          line: 5,
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,202 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noServerExportsInClientFiles } from '../../src/rules/no-server-exports-in-client-files';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester();
+
+ruleTester.run(
+  'no-server-exports-in-client-files',
+  noServerExportsInClientFiles,
+  {
+    valid: [
+      {
+        name: 'metadata exported from a server page',
+        code: `
+          export const metadata = { title: 'Home' };
+          export const revalidate = 60;
+
+          export default function Page() {
+            return null;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'client page without server exports',
+        code: `
+          'use client';
+
+          export default function Page() {
+            return null;
+          }
+        `,
+        filename: 'app/page.tsx',
+      },
+      {
+        name: 'server exports named like in a client file that is not a special file',
+        code: `
+          'use client';
+
+          export const dynamic = true;
+        `,
+        filename: 'app/toggle.tsx',
+      },
+      {
+        name: 'route handler without use client',
+        code: `
+          export const runtime = 'edge';
+
+          export async function GET() {
+            return new Response('ok');
+          }
+        `,
+        filename: 'app/api/route.ts',
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'metadata exported from a client page',
+        code: `
+          'use client';
+
+          export const metadata = { title: 'Home' };
+
+          export default function Page() {
+            return null;
+          }
+        `,
+        filename: 'app/page.tsx',
+        errors: [
+          {
+            messageId: 'serverExport',
+            data: { name: 'metadata', file: 'page' },
+            line: 4,
+            column: 24,
+          },
+        ],
+      },
+      {
+        name: 'generateMetadata and segment config in a client layout',
+        code: `
+          'use client';
+
+          export async function generateMetadata() {
+            return {};
+          }
+
+          export const dynamic = 'force-dynamic',
+            revalidate = 0;
+        `,
+        filename: 'app/dashboard/layout.tsx',
+        errors: [
+          {
+            messageId: 'serverExport',
+            data: { name: 'generateMetadata', file: 'layout' },
+          },
+          {
+            messageId: 'serverExport',
+            data: { name: 'dynamic', file: 'layout' },
+          },
+          {
+            messageId: 'serverExport',
+            data: { name: 'revalidate', file: 'layout' },
+          },
+        ],
+      },
+      {
+        name: 'exported specifiers',
+        code: `
+          'use client';
+
+          function params() {
+            return [];
+          }
+
+          export { params as generateStaticParams };
+          export { runtime } from './config';
+        `,
+        filename: 'app/blog/[slug]/page.jsx',
+        errors: [
+          {
+            messageId: 'serverExport',
+            data: { name: 'generateStaticParams', file: 'page' },
+          },
+          {
+            messageId: 'serverExport',
+            data: { name: 'runtime', file: 'page' },
+          },
+        ],
+      },
+      {
+        name: 'use client in a route handler',
+        code: `'use client';
+
+export async function GET() {
+  return new Response('ok');
+}
+`,
+        filename: 'app/api/route.ts',
+        errors: [
+          {
+            messageId: 'serverOnlyFile',
+            data: { file: 'route' },
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output: `export async function GET() {
+  return new Response('ok');
+}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'use client in middleware',
+        code: `'use client';
+export function middleware() {}
+`,
+        filename: 'src/middleware.ts',
+        errors: [
+          {
+            messageId: 'serverOnlyFile',
+            data: { file: 'middleware' },
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output: `export function middleware() {}
+`,
+              },
+            ],
+          },
+        ],
+      },
+      {
+        name: 'use client in instrumentation',
+        code: `'use client';
+export function register() {}
+`,
+        filename: 'instrumentation.ts',
+        errors: [
+          {
+            messageId: 'serverOnlyFile',
+            data: { file: 'instrumentation' },
+            suggestions: [
+              {
+                messageId: 'removeUseClient',
+                output: `export function register() {}
+`,
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  }
+);
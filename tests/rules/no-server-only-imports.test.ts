@@ -0,0 +1,173 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noServerOnlyImports } from '../../src/rules/no-server-only-imports';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('no-server-only-imports', noServerOnlyImports, {
+  valid: [
+    {
+      name: 'client module importing client-safe modules',
+      code: `
+        'use client';
+
+        import { useState } from 'react';
+        import { formatPrice } from './tests/fixtures/format';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'server module importing server-only modules',
+      code: `
+        import 'server-only';
+        import { cookies } from 'next/headers';
+        import { db } from './tests/fixtures/server';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Server Actions imported from a client module',
+      code: `
+        'use client';
+
+        import { search } from './tests/fixtures/server/actions';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'type-only imports',
+      code: `
+        'use client';
+
+        import type { db } from './tests/fixtures/server';
+        export type { readConfig } from './tests/fixtures/server/files';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'configured server-only modules replace the defaults',
+      code: `
+        'use client';
+
+        import { cookies } from 'next/headers';
+      `,
+      filename: 'component.tsx',
+      options: [{ serverOnlyModules: ['@prisma/client'] }],
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'direct import of server-only',
+      code: `
+        'use client';
+
+        import 'server-only';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'serverOnlyImport',
+          data: { module: 'server-only' },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: 'direct import of a node built-in',
+      code: `
+        'use client';
+
+        import { readFileSync } from 'node:fs';
+      `,
+      filename: 'component.tsx',
+      errors: [{ messageId: 'serverOnlyImport', data: { module: 'node:fs' } }],
+    },
+    {
+      name: 'module marked with server-only',
+      code: `
+        'use client';
+
+        import { db } from './tests/fixtures/server/db';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'transitiveServerOnlyImport',
+          data: {
+            module: 'server-only',
+            chain: './tests/fixtures/server/db → server-only',
+          },
+        },
+      ],
+    },
+    {
+      name: 'module marked with server-only through a barrel',
+      code: `
+        'use client';
+
+        import { formatPrice } from './tests/fixtures/format';
+        import { db } from './tests/fixtures/server';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'transitiveServerOnlyImport',
+          data: {
+            module: 'server-only',
+            chain:
+              './tests/fixtures/server → tests/fixtures/server/db.ts → server-only',
+          },
+          line: 5,
+        },
+      ],
+    },
+    {
+      name: 'module importing a node built-in',
+      code: `
+        'use client';
+
+        export { readConfig } from './tests/fixtures/server/files';
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'transitiveServerOnlyImport',
+          data: {
+            module: 'node:fs',
+            chain: './tests/fixtures/server/files → node:fs',
+          },
+        },
+      ],
+    },
+    {
+      name: 'configured server-only module',
+      code: `
+        'use client';
+
+        import { PrismaClient } from '@prisma/client';
+      `,
+      filename: 'component.tsx',
+      options: [{ serverOnlyModules: ['@prisma/*'] }],
+      errors: [
+        {
+          messageId: 'serverOnlyImport',
+          data: { module: '@prisma/client' },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,199 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { noUnnecessaryUseClient } from '../../src/rules/no-unnecessary-use-client';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester();
+
+ruleTester.run('no-unnecessary-use-client', noUnnecessaryUseClient, {
+  valid: [
+    {
+      name: 'hooks',
+      code: `
+        'use client';
+
+        import { useState } from 'react';
+
+        export function Counter() {
+          const [count] = useState(0);
+          return count;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'custom hooks',
+      code: `
+        'use client';
+
+        import { useTheme } from './theme';
+
+        export function Logo() {
+          return useTheme().logo;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'createContext',
+      code: `
+        'use client';
+
+        import { createContext } from 'react';
+
+        export const ThemeContext = createContext('light');
+      `,
+      filename: 'theme.ts',
+    },
+    {
+      name: 'browser globals',
+      code: `
+        'use client';
+
+        export function Width() {
+          return window.innerWidth;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'event handlers',
+      code: `
+        'use client';
+
+        export function Button() {
+          return <button onClick={() => console.log('clicked')}>Log</button>;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'functions passed as props',
+      code: `
+        'use client';
+
+        import { List } from './list';
+
+        export function Users() {
+          return <List renderItem={item => <li>{item}</li>} />;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'class component',
+      code: `
+        'use client';
+
+        import * as React from 'react';
+
+        export class Boundary extends React.Component {
+          render() {
+            return null;
+          }
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'client-only import',
+      code: `
+        'use client';
+
+        import 'client-only';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'configured client-only module',
+      code: `
+        'use client';
+
+        import { motion } from 'framer-motion';
+
+        export function Fade() {
+          return <motion.div />;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ clientOnlyModules: ['client-only', 'framer-motion'] }],
+    },
+    {
+      name: 're-exports of a library',
+      code: `
+        'use client';
+
+        export { Carousel } from 'carousel';
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'without use client directive',
+      code: `
+        export function Title() {
+          return <h1>Title</h1>;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'static component',
+      code: `'use client';
+
+import { Card } from './card';
+
+export function Title({ text }: { text: string }) {
+  return <Card title={text} />;
+}
+`,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'unnecessaryUseClient',
+          line: 1,
+          suggestions: [
+            {
+              messageId: 'removeUseClient',
+              output: `import { Card } from './card';
+
+export function Title({ text }: { text: string }) {
+  return <Card title={text} />;
+}
+`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'typeof window guard',
+      code: `'use strict';
+"use client"
+// Formatting helpers
+export const isServer = typeof window === 'undefined';
+`,
+      filename: 'utils.ts',
+      errors: [
+        {
+          messageId: 'unnecessaryUseClient',
+          line: 2,
+          suggestions: [
+            {
+              messageId: 'removeUseClient',
+              output: `'use strict';
+// Formatting helpers
+export const isServer = typeof window === 'undefined';
+`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -469,33 +469,1937 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       `,
       filename: 'component.tsx',
     },
+    // Nested serializable types
+    {
+      name: 'Self-referential serializable type',
+      code: `
+        'use client';
+
+        type Tree = { label: string; children: Tree[] };
+
+        export default function Component(props: { tree: Tree }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Nested collections of serializable types',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          items: Array<{ id: string; tags: Set<string> }>;
+          lookup: Record<string, { count: number }>;
+          pair: [string, Date];
+          pending: Promise<Map<string, number[]>>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Nested Server Action naming is allowed',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          form: { title: string; submitAction: () => Promise<void> };
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Nested Server Actions in utility types are allowed',
+      code: `
+        'use client';
+
+        type Form = { title: string; submitAction: () => Promise<void> };
+
+        export default function Component(props: {
+          config: Partial<Form>;
+          form: Readonly<Form>;
+          actions: Omit<Form, 'title'>;
+          picked: Pick<Form, 'submitAction'>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'React elements are not inspected',
+      code: `
+        'use client';
+
+        declare namespace JSX {
+          interface Element {
+            type: (props: unknown) => unknown;
+          }
+        }
+
+        export default function Component(props: { slot: JSX.Element }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Readonly collections are allowed',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          lookup: ReadonlyMap<string, number>;
+          tags: ReadonlySet<string>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'User type sharing the name of a built-in is allowed',
+      code: `
+        'use client';
+
+        interface Node {
+          id: string;
+          children: Node[];
+        }
+
+        export default function Component(props: { root: Node }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    // Symbols
+    {
+      name: 'Unregistered symbol is allowed with Next.js semantics',
+      code: `
+        'use client';
+
+        const marker = Symbol('marker');
+
+        export default function Component(props: { marker: typeof marker }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Registered symbol is allowed with React semantics',
+      code: `
+        'use client';
+
+        const marker = Symbol.for('marker');
+
+        export default function Component(props: {
+          marker: typeof marker;
+          anySymbol: symbol;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ symbols: 'react' }],
+    },
+    // Options
+    {
+      name: 'Custom Server Action pattern',
+      code: `
+        'use client';
+
+        export default function Component(props: { saveFn: () => Promise<void> }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ serverActionPatterns: ['Fn$'] }],
+    },
+    {
+      name: 'Custom exempt props in matching files',
+      code: `
+        'use client';
+
+        export default function Component(props: { onRetry: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'app/dashboard/retry.tsx',
+      options: [{ exemptProps: [{ files: ['app/**'], props: ['onRetry'] }] }],
+    },
+    {
+      name: 'Custom ignored files',
+      code: `
+        'use client';
+
+        export default function Component(props: { onClick: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.stories.tsx',
+      options: [{ ignoreFiles: ['**/*.stories.tsx'] }],
+    },
+    {
+      name: 'Custom serializable types',
+      code: `
+        'use client';
+
+        class Decimal {
+          toFixed(): string {
+            return '';
+          }
+        }
+
+        export default function Component(props: { price: Decimal }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ serializableTypes: ['Decimal'] }],
+    },
+    // Server Actions recognized by origin
+    {
+      name: 'Server Actions imported from a use server module',
+      code: `
+        'use client';
+
+        import { remove, save } from './tests/fixtures/actions';
+
+        export default function Component(props: {
+          onSave: typeof save;
+          onRemove?: typeof remove;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ serverActionPatterns: [] }],
+    },
+    {
+      name: 'Inline Server Action',
+      code: `
+        'use client';
+
+        import { publish } from './tests/fixtures/inline-actions';
+
+        export default function Component(props: {
+          post: { title: string; onPublish: typeof publish };
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ serverActionPatterns: [] }],
+    },
+    // Components wrapped in higher-order components
+    {
+      name: 'memo wrapped component with serializable props',
+      code: `
+        'use client';
+
+        declare function memo<P>(component: (props: P) => unknown): (props: P) => unknown;
+
+        export default memo(function Card(props: { title: string }) {
+          return null;
+        });
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'ref and key of a lazy forwardRef component are not checked',
+      code: `
+        'use client';
+
+        import { lazy } from './tests/fixtures/react';
+        import Input from './tests/fixtures/forward-ref';
+
+        export const LazyInput = lazy(async () => ({ default: Input }));
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Unknown higher-order component is not checked',
+      code: `
+        'use client';
+
+        declare function withTheme<P>(component: (props: P) => unknown): (props: P) => unknown;
+
+        function Card(props: { onClick: () => void }) {
+          return null;
+        }
+
+        export default withTheme(Card);
+      `,
+      filename: 'component.tsx',
+    },
+    // Type-driven detection of exported components
+    {
+      name: 'Type-driven detection ignores exports without call signature',
+      code: `
+        'use client';
+
+        export type Props = { onClick: () => void };
+        export const LIMIT = 10;
+        export function useCounter(initial: number) {
+          return initial;
+        }
+
+        export default function Component(props: { name: string }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
+    },
+    {
+      name: 'Type-driven detection ignores helpers taking arrays and built-ins',
+      code: `
+        'use client';
+
+        export function formatDate(date: Date) {
+          return date.toISOString();
+        }
+        export function join(items: string[], pair: [string, string]) {
+          return [...items, ...pair].join();
+        }
+        export function getHost(url: URL) {
+          return url.host;
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
+    },
+    {
+      name: 'Type-driven detection ignores ref and key of forwardRef components',
+      code: `
+        'use client';
+
+        import { forwardRef } from './tests/fixtures/react';
+
+        export const Input = forwardRef<HTMLInputElement, { label: string }>(
+          function Input(props) {
+            return null;
+          }
+        );
+        export { default as Field } from './tests/fixtures/forward-ref';
+      `,
+      filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
+    },
+    // Class components
+    {
+      name: 'Class component with serializable props',
+      code: `
+        'use client';
+
+        declare namespace React {
+          class Component<P = {}, S = {}> {
+            props: Readonly<P>;
+            state: S;
+          }
+        }
+
+        export default class Dashboard extends React.Component<{ title: string }> {}
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'Class not extending a component class is not checked',
+      code: `
+        'use client';
+
+        class Base<T> {
+          value?: T;
+        }
+
+        export class Store extends Base<{ onChange: () => void }> {}
+      `,
+      filename: 'component.tsx',
+    },
+    {
+      name: 'use client after an import is not a directive',
+      code: `
+        import type { ButtonProps } from './tests/fixtures/types';
+        'use client';
+
+        export default function Component(props: ButtonProps) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+    },
   ],
 
   invalid: [
     // Function props without action naming
     {
-      name: 'function prop not named as action',
+      name: 'function prop not named as action',
+      code: `
+        'use client';
+
+        export default function Component(props: { notSerializable: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'notSerializable', propName: 'notSerializable' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: {
+                propName: 'notSerializable',
+                newName: 'notSerializableAction',
+              },
+              output: `
+        'use client';
+
+        export default function Component(props: { notSerializableAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'function prop with callback name',
+      code: `
+        'use client';
+
+        export default function Component(props: { onClick: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'function prop with handler name',
+      code: `
+        'use client';
+
+        export default function Component(props: { onSubmit: (data: string) => Promise<void> }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { onSubmitAction: (data: string) => Promise<void> }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Class type props
+    {
+      name: 'class instance prop',
+      code: `
+        'use client';
+
+        class ClassName {}
+
+        export default function Component(props: { notSerializable: ClassName }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'notSerializable',
+            reason: 'it is an instance of class "ClassName"',
+          },
+        },
+      ],
+    },
+    // Constructor type props
+    {
+      name: 'constructor type prop',
+      code: `
+        'use client';
+
+        type Class<T> = new (...args: any[]) => T;
+
+        export default function Component(props: {
+          notSerializable: Class<String>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: { path: 'notSerializable', reason: 'it is a class' },
+        },
+      ],
+    },
+    {
+      name: 'custom class with explicit constructor type',
+      code: `
+        'use client';
+
+        class CustomClass {}
+
+        export default function Component(props: {
+          notSerializable: typeof CustomClass;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: { path: 'notSerializable', reason: 'it is a class' },
+        },
+      ],
+    },
+    {
+      name: 'custom class instance should fail but built-ins pass',
+      code: `
+        'use client';
+
+        class CustomClass {}
+
+        export default function Component(props: {
+          custom: CustomClass;
+          date: Date;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'custom',
+            reason: 'it is an instance of class "CustomClass"',
+          },
+        },
+      ],
+    },
+    // Reset outside error files
+    {
+      name: 'reset prop outside error file',
+      code: `
+        'use client';
+
+        export default function Component(props: { reset: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'reset', propName: 'reset' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'reset', newName: 'resetAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { resetAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Named exports with invalid props
+    {
+      name: 'named export with invalid function prop',
+      code: `
+        'use client';
+
+        export function Component(props: { onClick: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export function Component(props: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Arrow function with invalid props
+    {
+      name: 'arrow function with invalid function prop',
+      code: `
+        'use client';
+
+        export const Component = (props: { onChange: (value: string) => void }) => {
+          return null;
+        };
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        export const Component = (props: { onChangeAction: (value: string) => void }) => {
+          return null;
+        };
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Function expression with invalid props
+    {
+      name: 'function expression with invalid function prop',
+      code: `
+        'use client';
+
+        export const Component = function(props: { onClick: () => void }) {
+          return null;
+        };
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export const Component = function(props: { onClickAction: () => void }) {
+          return null;
+        };
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'function expression with class instance',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export const Component = function(props: { instance: MyClass }) {
+          return null;
+        };
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'instance',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    // Multiple invalid props
+    {
+      name: 'multiple invalid props',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          onClick: () => void;
+          notSerializable: MyClass;
+          onSubmit: () => void;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          onClickAction: () => void;
+          notSerializable: MyClass;
+          onSubmit: () => void;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'notSerializable',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          onClick: () => void;
+          notSerializable: MyClass;
+          onSubmitAction: () => void;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Mixed valid and invalid props
+    {
+      name: 'mixed valid and invalid props',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          name: string;
+          submitAction: () => void;
+          onClick: () => void;
+          age: number;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          name: string;
+          submitAction: () => void;
+          onClickAction: () => void;
+          age: number;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Multiple exported components should all be checked
+    {
+      name: 'multiple exported components both checked',
+      code: `
+        'use client';
+
+        export function ComponentA(props: { onClick: () => void }) {
+          return null;
+        }
+
+        export function ComponentB(props: { onChange: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export function ComponentA(props: { onClickAction: () => void }) {
+          return null;
+        }
+
+        export function ComponentB(props: { onChange: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        export function ComponentA(props: { onClick: () => void }) {
+          return null;
+        }
+
+        export function ComponentB(props: { onChangeAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Mix of exported and non-exported components
+    {
+      name: 'exported component checked, non-exported ignored',
+      code: `
+        'use client';
+
+        function InternalHelper(props: { callback: () => void }) {
+          return null;
+        }
+
+        export default function Component(props: { onClick: () => void }) {
+          return <InternalHelper callback={() => {}} />;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        function InternalHelper(props: { callback: () => void }) {
+          return null;
+        }
+
+        export default function Component(props: { onClickAction: () => void }) {
+          return <InternalHelper callback={() => {}} />;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Multiple exports with one invalid
+    {
+      name: 'multiple exports with one having invalid props',
+      code: `
+        'use client';
+
+        export function ValidComponent(props: { action: () => void }) {
+          return null;
+        }
+
+        export function InvalidComponent(props: { onClick: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export function ValidComponent(props: { action: () => void }) {
+          return null;
+        }
+
+        export function InvalidComponent(props: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Destructured props - invalid cases
+    {
+      name: 'destructured props with invalid function',
+      code: `
+        'use client';
+
+        export default function Component({ onClick }: { onClick: () => void }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component({ onClickAction: onClick }: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'destructured props with multiple invalid functions',
+      code: `
+        'use client';
+
+        export default function Component({
+          onClick,
+          onChange
+        }: {
+          onClick: () => void;
+          onChange: (val: string) => void
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component({
+          onClickAction: onClick,
+          onChange
+        }: {
+          onClickAction: () => void;
+          onChange: (val: string) => void
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        export default function Component({
+          onClick,
+          onChangeAction: onChange
+        }: {
+          onClick: () => void;
+          onChangeAction: (val: string) => void
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'destructured props with class instance',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component({
+          instance
+        }: {
+          instance: MyClass
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'instance',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    {
+      name: 'destructured props with mixed valid and invalid',
+      code: `
+        'use client';
+
+        export default function Component({
+          name,
+          submitAction,
+          onClick
+        }: {
+          name: string;
+          submitAction: () => void;
+          onClick: () => void
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component({
+          name,
+          submitAction,
+          onClickAction: onClick
+        }: {
+          name: string;
+          submitAction: () => void;
+          onClickAction: () => void
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Intersection types with functions should be detected
+    {
+      name: 'Intersection type with function component',
+      code: `
+        'use client';
+
+        type WithMeta = { meta: string };
+        type Handler = () => void;
+
+        export default function Component(props: {
+          callback: Handler & WithMeta;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'callback', propName: 'callback' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'callback', newName: 'callbackAction' },
+              output: `
+        'use client';
+
+        type WithMeta = { meta: string };
+        type Handler = () => void;
+
+        export default function Component(props: {
+          callbackAction: Handler & WithMeta;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Intersection type with class should be detected',
+      code: `
+        'use client';
+
+        class MyClass {}
+        type WithId = { id: string };
+
+        export default function Component(props: {
+          instance: MyClass & WithId;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'instance',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    // Union types with invalid components should be detected
+    {
+      name: 'Union type with function should be detected',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          callback: string | (() => void);
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'callback', propName: 'callback' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'callback', newName: 'callbackAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          callbackAction: string | (() => void);
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Union type with class should be detected',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          value: string | MyClass;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'value',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    // Optional invalid props should still be detected
+    {
+      name: 'Optional non-action function prop',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          onClick?: () => void;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          onClickAction?: () => void;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Mixed optional required with invalid prop',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          name: string;
+          submitAction?: () => void;
+          onClick: () => void;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          name: string;
+          submitAction?: () => void;
+          onClickAction: () => void;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Complex union types - reports first invalid type found
+    {
+      name: 'Complex union with multiple invalid types',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          value: string | (() => void) | MyClass;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'value', propName: 'value' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'value', newName: 'valueAction' },
+              output: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          valueAction: string | (() => void) | MyClass;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Multiple props with various issues
+    {
+      name: 'Multiple props with mixed issues',
+      code: `
+        'use client';
+
+        class CustomClass {}
+
+        export default function Component(props: {
+          name: string;
+          onClick: () => void;
+          submitAction: () => void;
+          instance: CustomClass;
+          onChange?: (val: string) => void;
+          data: Date;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        class CustomClass {}
+
+        export default function Component(props: {
+          name: string;
+          onClickAction: () => void;
+          submitAction: () => void;
+          instance: CustomClass;
+          onChange?: (val: string) => void;
+          data: Date;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'instance',
+            reason: 'it is an instance of class "CustomClass"',
+          },
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        class CustomClass {}
+
+        export default function Component(props: {
+          name: string;
+          onClick: () => void;
+          submitAction: () => void;
+          instance: CustomClass;
+          onChangeAction?: (val: string) => void;
+          data: Date;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Nested non-serializable types
+    {
+      name: 'Function nested in an object prop',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          user: { name: string; onSave: () => void };
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'user.onSave', propName: 'onSave' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSave', newName: 'onSaveAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          user: { name: string; onSaveAction: () => void };
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Method nested in an object prop',
+      code: `
+        'use client';
+
+        interface Settings {
+          theme: string;
+          apply(): void;
+        }
+
+        export default function Component(props: { settings: Settings }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'settings.apply', propName: 'apply' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'apply', newName: 'applyAction' },
+              output: `
+        'use client';
+
+        interface Settings {
+          theme: string;
+          applyAction(): void;
+        }
+
+        export default function Component(props: { settings: Settings }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Array of functions',
+      code: `
+        'use client';
+
+        export default function Component(props: { items: Array<() => void> }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'items[number]', propName: 'items' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'items', newName: 'itemsAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { itemsAction: Array<() => void> }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Tuple containing a class instance',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: { pair: [string, MyClass] }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'pair[1]',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    {
+      name: 'Record of functions',
+      code: `
+        'use client';
+
+        type Handler = (event: string) => void;
+
+        export default function Component(props: {
+          handlers: Record<string, Handler>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'handlers[string]', propName: 'handlers' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'handlers', newName: 'handlersAction' },
+              output: `
+        'use client';
+
+        type Handler = (event: string) => void;
+
+        export default function Component(props: {
+          handlersAction: Record<string, Handler>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Map of class instances',
+      code: `
+        'use client';
+
+        class SomeClass {}
+
+        export default function Component(props: {
+          lookup: Map<string, SomeClass>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'lookup<value>',
+            reason: 'it is an instance of class "SomeClass"',
+          },
+        },
+      ],
+    },
+    {
+      name: 'Promise resolving to a function',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          pending: Promise<{ callback: () => void }>;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'pending<resolved>.callback', propName: 'callback' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'callback', newName: 'callbackAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          pending: Promise<{ callbackAction: () => void }>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Function buried in a self-referential type',
+      code: `
+        'use client';
+
+        type Node = { children: Node[]; onSelect?: () => void };
+
+        export default function Component(props: { tree: Node }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'tree.onSelect', propName: 'onSelect' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSelect', newName: 'onSelectAction' },
+              output: `
+        'use client';
+
+        type Node = { children: Node[]; onSelectAction?: () => void };
+
+        export default function Component(props: { tree: Node }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    // Reported paths
+    {
+      name: 'Path to a deeply nested function',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          user: { settings: { theme: string; onChange: () => void } };
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'user.settings.onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          user: { settings: { theme: string; onChangeAction: () => void } };
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Path through array elements',
+      code: `
+        'use client';
+
+        export default function Component(props: {
+          items: { id: string; callback: () => void }[];
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'items[number].callback', propName: 'callback' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'callback', newName: 'callbackAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          items: { id: string; callbackAction: () => void }[];
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Path with a non-identifier property name',
+      code: `
+        'use client';
+
+        class MyClass {}
+
+        export default function Component(props: {
+          data: { 'aria-owner': MyClass };
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'data["aria-owner"]',
+            reason: 'it is an instance of class "MyClass"',
+          },
+        },
+      ],
+    },
+    // Props declared outside the linted file
+    {
+      name: 'Function prop declared in another file',
+      code: `
+        'use client';
+
+        import type { ButtonProps } from './tests/fixtures/types';
+
+        export default function Component(props: ButtonProps) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'externalFunctionNotServerAction',
+          data: {
+            path: 'onPress',
+            propName: 'onPress',
+            location: 'tests/fixtures/types.ts:3',
+          },
+          line: 6,
+        },
+      ],
+    },
+    {
+      name: 'Class instance prop declared in another file',
+      code: `
+        'use client';
+
+        import type { CardProps } from './tests/fixtures/types';
+
+        export default function Component({ title, session }: CardProps) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'externalInvalidProp',
+          data: {
+            path: 'session',
+            location: 'tests/fixtures/types.ts:12',
+            reason: 'it is an instance of class "Session"',
+          },
+          line: 6,
+        },
+      ],
+    },
+    {
+      name: 'Nested prop declared in another file',
+      code: `
+        'use client';
+
+        import type { ButtonProps } from './tests/fixtures/types';
+
+        export default function Component(props: {
+          button: ButtonProps;
+        }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'externalFunctionNotServerAction',
+          data: {
+            path: 'button.onPress',
+            propName: 'onPress',
+            location: 'tests/fixtures/types.ts:3',
+          },
+          line: 7,
+        },
+      ],
+    },
+    {
+      name: 'Function prop declared in a library',
+      code: `
+        'use client';
+
+        export default function Component(
+          props: Pick<GlobalEventHandlers, 'onclick'>
+        ) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'externalFunctionNotServerAction',
+          line: 5,
+        },
+      ],
+    },
+    {
+      name: 'Props declared in another file are reported together',
+      code: `
+        'use client';
+
+        import type { FieldProps } from './tests/fixtures/types';
+
+        export default function Component(props: FieldProps) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'externalInvalidProps',
+          data: {
+            count: 2,
+            props:
+              '"onChange" (declared in tests/fixtures/types.ts:17): it is a function; "onBlur" (declared in tests/fixtures/types.ts:18): it is a function',
+          },
+          line: 6,
+        },
+      ],
+    },
+    {
+      name: 'Props declared in a library are reported together',
       code: `
         'use client';
 
-        export default function Component(props: { notSerializable: () => void }) {
+        export default function Component(props: Partial<GlobalEventHandlers>) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'notSerializable' },
+          messageId: 'externalInvalidProps',
+          line: 4,
         },
       ],
     },
     {
-      name: 'function prop with callback name',
+      name: 'Function prop without a declaration',
       code: `
         'use client';
 
-        export default function Component(props: { onClick: () => void }) {
+        export default function Component(
+          props: Record<'onOpen' | 'onClose', () => void>
+        ) {
           return null;
         }
       `,
@@ -503,16 +2407,26 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onOpen', propName: 'onOpen' },
+          line: 5,
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClose', propName: 'onClose' },
+          line: 5,
         },
       ],
     },
     {
-      name: 'function prop with handler name',
+      name: 'Nested function alias shared with a Server Action',
       code: `
         'use client';
 
-        export default function Component(props: { onSubmit: (data: string) => Promise<void> }) {
+        type Handler = () => void;
+
+        export default function Component(props: {
+          user: { saveAction: Handler; onSave: Handler };
+        }) {
           return null;
         }
       `,
@@ -520,40 +2434,123 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onSubmit' },
+          data: { path: 'user.onSave', propName: 'onSave' },
+          line: 7,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSave', newName: 'onSaveAction' },
+              output: `
+        'use client';
+
+        type Handler = () => void;
+
+        export default function Component(props: {
+          user: { saveAction: Handler; onSaveAction: Handler };
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Class type props
     {
-      name: 'class instance prop',
+      name: 'Functions nested in utility types',
       code: `
         'use client';
 
-        class ClassName {}
-
-        export default function Component(props: { notSerializable: ClassName }) {
+        export default function Component(props: {
+          config: Partial<{ onSubmit: () => void }>;
+          form: Readonly<{ title: string; onSave: () => void }>;
+          handlers: Omit<{ id: string; onReset: () => void }, 'id'>;
+        }) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'invalidProp',
-          data: { propName: 'notSerializable' },
+          messageId: 'functionNotServerAction',
+          data: { path: 'config.onSubmit', propName: 'onSubmit' },
+          line: 5,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          config: Partial<{ onSubmitAction: () => void }>;
+          form: Readonly<{ title: string; onSave: () => void }>;
+          handlers: Omit<{ id: string; onReset: () => void }, 'id'>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'form.onSave', propName: 'onSave' },
+          line: 6,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSave', newName: 'onSaveAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          config: Partial<{ onSubmit: () => void }>;
+          form: Readonly<{ title: string; onSaveAction: () => void }>;
+          handlers: Omit<{ id: string; onReset: () => void }, 'id'>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'handlers.onReset', propName: 'onReset' },
+          line: 7,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onReset', newName: 'onResetAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          config: Partial<{ onSubmit: () => void }>;
+          form: Readonly<{ title: string; onSave: () => void }>;
+          handlers: Omit<{ id: string; onResetAction: () => void }, 'id'>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Constructor type props
+    // Built-ins declared as interfaces
     {
-      name: 'constructor type prop',
+      name: 'Non-serializable built-ins declared as interfaces',
       code: `
         'use client';
 
-        type Class<T> = new (...args: any[]) => T;
-
         export default function Component(props: {
-          notSerializable: Class<String>;
+          cache: WeakMap<object, string>;
+          url: URL;
+          headers: Headers;
+          signal: AbortSignal;
+          element: HTMLElement;
         }) {
           return null;
         }
@@ -562,19 +2559,93 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       errors: [
         {
           messageId: 'invalidProp',
-          data: { propName: 'notSerializable' },
+          data: {
+            path: 'cache',
+            reason:
+              'it is an instance of the non-serializable built-in "WeakMap"',
+          },
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'url',
+            reason: 'it is an instance of the non-serializable built-in "URL"',
+          },
+          suggestions: [
+            {
+              messageId: 'replaceType',
+              data: { typeName: 'URL', replacement: 'string' },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          cache: WeakMap<object, string>;
+          url: string;
+          headers: Headers;
+          signal: AbortSignal;
+          element: HTMLElement;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'headers',
+            reason:
+              'it is an instance of the non-serializable built-in "Headers"',
+          },
+          suggestions: [
+            {
+              messageId: 'replaceType',
+              data: {
+                typeName: 'Headers',
+                replacement: 'Record<string, string>',
+              },
+              output: `
+        'use client';
+
+        export default function Component(props: {
+          cache: WeakMap<object, string>;
+          url: URL;
+          headers: Record<string, string>;
+          signal: AbortSignal;
+          element: HTMLElement;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'signal',
+            reason:
+              'it is an instance of the non-serializable built-in "AbortSignal"',
+          },
+        },
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'element',
+            reason:
+              'it is an instance of the non-serializable built-in "HTMLElement"',
+          },
         },
       ],
     },
     {
-      name: 'custom class with explicit constructor type',
+      name: 'Lib interface with methods',
       code: `
         'use client';
 
-        class CustomClass {}
-
         export default function Component(props: {
-          notSerializable: typeof CustomClass;
+          selection: { range: Range };
         }) {
           return null;
         }
@@ -583,435 +2654,868 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       errors: [
         {
           messageId: 'invalidProp',
-          data: { propName: 'notSerializable' },
+          data: {
+            path: 'selection.range',
+            reason:
+              'it is an instance of the non-serializable built-in "Range"',
+          },
         },
       ],
     },
     {
-      name: 'custom class instance should fail but built-ins pass',
+      name: 'Unregistered symbol with React semantics',
       code: `
         'use client';
 
-        class CustomClass {}
+        const marker = Symbol('marker');
 
         export default function Component(props: {
-          custom: CustomClass;
-          date: Date;
+          meta: { marker: typeof marker };
         }) {
           return null;
         }
       `,
       filename: 'component.tsx',
+      options: [{ symbols: 'react' }],
       errors: [
         {
           messageId: 'invalidProp',
-          data: { propName: 'custom' },
+          data: {
+            path: 'meta.marker',
+            reason:
+              'symbol "marker" is not registered globally, use Symbol.for() to create it',
+          },
         },
       ],
     },
-    // Reset outside error files
     {
-      name: 'reset prop outside error file',
+      name: 'Custom Server Action patterns replace the defaults',
       code: `
         'use client';
 
-        export default function Component(props: { reset: () => void }) {
+        export default function Component(props: { submitAction: () => void }) {
           return null;
         }
       `,
       filename: 'component.tsx',
+      options: [{ serverActionPatterns: ['Fn$'] }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'reset' },
+          data: { path: 'submitAction', propName: 'submitAction' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'submitAction', newName: 'submitActionAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { submitActionAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Named exports with invalid props
     {
-      name: 'named export with invalid function prop',
+      name: 'Custom exempt props in other files',
       code: `
         'use client';
 
-        export function Component(props: { onClick: () => void }) {
+        export default function Component(props: { onRetry: () => void }) {
           return null;
         }
       `,
       filename: 'component.tsx',
+      options: [{ exemptProps: [{ files: ['app/**'], props: ['onRetry'] }] }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onRetry', propName: 'onRetry' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onRetry', newName: 'onRetryAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { onRetryAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Arrow function with invalid props
     {
-      name: 'arrow function with invalid function prop',
+      name: 'Custom ignored files replace the defaults',
       code: `
         'use client';
 
-        export const Component = (props: { onChange: (value: string) => void }) => {
+        export default function Component(props: { onClick: () => void }) {
           return null;
-        };
+        }
       `,
-      filename: 'component.tsx',
+      filename: 'component.test.tsx',
+      options: [{ ignoreFiles: ['**/*.stories.tsx'] }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onChange' },
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        export default function Component(props: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Function expression with invalid props
     {
-      name: 'function expression with invalid function prop',
+      name: 'Custom non-serializable types',
       code: `
         'use client';
 
-        export const Component = function(props: { onClick: () => void }) {
+        type Secret = { value: string };
+
+        export default function Component(props: {
+          user: { name: string; token: Secret };
+        }) {
           return null;
-        };
+        }
+      `,
+      filename: 'component.tsx',
+      options: [{ nonSerializableTypes: ['Secret'] }],
+      errors: [
+        {
+          messageId: 'invalidProp',
+          data: {
+            path: 'user.token',
+            reason: '"Secret" is configured as non-serializable',
+          },
+        },
+      ],
+    },
+    {
+      name: 'Function named like a Server Action without the name fallback',
+      code: `
+        'use client';
+
+        import { onAction } from './tests/fixtures/inline-actions';
+
+        export default function Component(props: {
+          onAction: typeof onAction;
+          submitAction: () => Promise<void>;
+        }) {
+          return null;
+        }
       `,
       filename: 'component.tsx',
+      options: [{ serverActionPatterns: [] }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onAction', propName: 'onAction' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onAction', newName: 'onActionAction' },
+              output: `
+        'use client';
+
+        import { onAction } from './tests/fixtures/inline-actions';
+
+        export default function Component(props: {
+          onActionAction: typeof onAction;
+          submitAction: () => Promise<void>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'submitAction', propName: 'submitAction' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'submitAction', newName: 'submitActionAction' },
+              output: `
+        'use client';
+
+        import { onAction } from './tests/fixtures/inline-actions';
+
+        export default function Component(props: {
+          onAction: typeof onAction;
+          submitActionAction: () => Promise<void>;
+        }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
     {
-      name: 'function expression with class instance',
+      name: 'memo wrapped function expression',
       code: `
         'use client';
 
-        class MyClass {}
+        declare function memo<P>(component: (props: P) => unknown): (props: P) => unknown;
 
-        export const Component = function(props: { instance: MyClass }) {
+        export default memo(function Card(props: { onClick: () => void }) {
+          return null;
+        });
+      `,
+      filename: 'component.tsx',
+      errors: [
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        declare function memo<P>(component: (props: P) => unknown): (props: P) => unknown;
+
+        export default memo(function Card(props: { onClickAction: () => void }) {
           return null;
+        });
+      `,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'forwardRef wrapped arrow function',
+      code: `
+        'use client';
+
+        declare const React: {
+          forwardRef<T, P>(
+            render: (props: P, ref: T | null) => unknown
+          ): (props: P) => unknown;
         };
+
+        type Props = { onChange: (value: string) => void };
+
+        export const Input = React.forwardRef<HTMLInputElement, Props>(
+          (props, ref) => null
+        );
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'invalidProp',
-          data: { propName: 'instance' },
+          messageId: 'functionNotServerAction',
+          data: { path: 'onChange', propName: 'onChange' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        declare const React: {
+          forwardRef<T, P>(
+            render: (props: P, ref: T | null) => unknown
+          ): (props: P) => unknown;
+        };
+
+        type Props = { onChangeAction: (value: string) => void };
+
+        export const Input = React.forwardRef<HTMLInputElement, Props>(
+          (props, ref) => null
+        );
+      `,
+            },
+          ],
         },
       ],
     },
-    // Multiple invalid props
     {
-      name: 'multiple invalid props',
+      name: 'memo wrapped function declaration',
       code: `
         'use client';
 
-        class MyClass {}
+        declare function memo<P>(component: (props: P) => unknown): (props: P) => unknown;
 
-        export default function Component(props: {
-          onClick: () => void;
-          notSerializable: MyClass;
-          onSubmit: () => void;
-        }) {
+        function Card(props: { onClick: () => void }) {
           return null;
         }
+
+        export const MemoCard = memo(Card);
       `,
       filename: 'component.tsx',
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        declare function memo<P>(component: (props: P) => unknown): (props: P) => unknown;
+
+        function Card(props: { onClickAction: () => void }) {
+          return null;
+        }
+
+        export const MemoCard = memo(Card);
+      `,
+            },
+          ],
         },
+      ],
+    },
+    {
+      name: 'lazy component',
+      code: `
+        'use client';
+
+        declare function lazy<P>(
+          load: () => Promise<{ default: (props: P) => unknown }>
+        ): (props: P) => unknown;
+
+        declare function load(): Promise<{
+          default: (props: { onClick: () => void }) => unknown;
+        }>;
+
+        export default lazy(load);
+      `,
+      filename: 'component.tsx',
+      errors: [
         {
-          messageId: 'invalidProp',
-          data: { propName: 'notSerializable' },
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          line: 9,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        declare function lazy<P>(
+          load: () => Promise<{ default: (props: P) => unknown }>
+        ): (props: P) => unknown;
+
+        declare function load(): Promise<{
+          default: (props: { onClickAction: () => void }) => unknown;
+        }>;
+
+        export default lazy(load);
+      `,
+            },
+          ],
         },
+      ],
+    },
+    {
+      name: 'lazy forwardRef component reports its props but not ref',
+      code: `
+        'use client';
+
+        import { forwardRef, lazy } from './tests/fixtures/react';
+
+        const Input = forwardRef<HTMLInputElement, { onChange: () => void }>(
+          function Input(props) {
+            return null;
+          }
+        );
+
+        export const LazyInput = lazy(async () => ({ default: Input }));
+      `,
+      filename: 'component.tsx',
+      errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onSubmit' },
+          data: { path: 'onChange', propName: 'onChange' },
+          line: 6,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onChange', newName: 'onChangeAction' },
+              output: `
+        'use client';
+
+        import { forwardRef, lazy } from './tests/fixtures/react';
+
+        const Input = forwardRef<HTMLInputElement, { onChangeAction: () => void }>(
+          function Input(props) {
+            return null;
+          }
+        );
+
+        export const LazyInput = lazy(async () => ({ default: Input }));
+      `,
+            },
+          ],
         },
       ],
     },
-    // Mixed valid and invalid props
     {
-      name: 'mixed valid and invalid props',
+      name: 'Configured higher-order component',
       code: `
         'use client';
 
-        export default function Component(props: {
-          name: string;
-          submitAction: () => void;
-          onClick: () => void;
-          age: number;
-        }) {
+        class Theme {}
+
+        declare function withTheme<P>(
+          component: (props: P & { theme: Theme }) => unknown
+        ): (props: P) => unknown;
+
+        function Card(props: { title: string; card: Theme; theme: Theme }) {
           return null;
         }
+
+        export default withTheme<{ title: string; card: Theme }>(Card);
       `,
       filename: 'component.tsx',
+      options: [{ hocNames: ['withTheme'] }],
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          messageId: 'invalidProp',
+          data: {
+            path: 'card',
+            reason: 'it is an instance of class "Theme"',
+          },
         },
       ],
     },
-    // Multiple exported components should all be checked
     {
-      name: 'multiple exported components both checked',
+      name: 'Type-driven detection of a function declaration exported by name',
       code: `
         'use client';
 
-        export function ComponentA(props: { onClick: () => void }) {
+        function Component(props: { onClick: () => void }) {
           return null;
         }
 
-        export function ComponentB(props: { onChange: () => void }) {
-          return null;
-        }
+        export { Component };
       `,
       filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
-        },
-        {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onChange' },
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        function Component(props: { onClickAction: () => void }) {
+          return null;
+        }
+
+        export { Component };
+      `,
+            },
+          ],
         },
       ],
     },
-    // Mix of exported and non-exported components
     {
-      name: 'exported component checked, non-exported ignored',
+      name: 'Type-driven detection through casts of the default export',
       code: `
         'use client';
 
-        function InternalHelper(props: { callback: () => void }) {
+        const Component = function (props: { onClick: () => void }) {
           return null;
-        }
+        };
 
-        export default function Component(props: { onClick: () => void }) {
-          return <InternalHelper callback={() => {}} />;
-        }
+        export default Component as any;
       `,
       filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        const Component = function (props: { onClickAction: () => void }) {
+          return null;
+        };
+
+        export default Component as any;
+      `,
+            },
+          ],
         },
       ],
     },
-    // Multiple exports with one invalid
     {
-      name: 'multiple exports with one having invalid props',
+      name: 'Type-driven detection of a component exported under two names',
       code: `
         'use client';
 
-        export function ValidComponent(props: { action: () => void }) {
+        function Card(props: { onClick: () => void }) {
           return null;
         }
 
-        export function InvalidComponent(props: { onClick: () => void }) {
-          return null;
-        }
+        export { Card };
+        export default Card as any;
       `,
       filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onClick', propName: 'onClick' },
+          line: 4,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        function Card(props: { onClickAction: () => void }) {
+          return null;
+        }
+
+        export { Card };
+        export default Card as any;
+      `,
+            },
+          ],
         },
       ],
     },
-    // Destructured props - invalid cases
     {
-      name: 'destructured props with invalid function',
+      name: 'Type-driven detection of re-exported components',
       code: `
         'use client';
 
-        export default function Component({ onClick }: { onClick: () => void }) {
-          return null;
-        }
+        export * from './tests/fixtures/components';
       `,
       filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          messageId: 'externalFunctionNotServerAction',
+          data: {
+            path: 'onPress',
+            propName: 'onPress',
+            location: 'tests/fixtures/components.ts:1',
+          },
+          line: 4,
         },
       ],
     },
     {
-      name: 'destructured props with multiple invalid functions',
+      name: 'Default exported class component',
       code: `
         'use client';
 
-        export default function Component({
-          onClick,
-          onChange
-        }: {
-          onClick: () => void;
-          onChange: (val: string) => void
-        }) {
-          return null;
+        declare namespace React {
+          class Component<P = {}, S = {}> {
+            props: Readonly<P>;
+            state: S;
+          }
         }
+
+        type Props = { onRefresh: () => void };
+
+        export default class Dashboard extends React.Component<Props> {}
       `,
       filename: 'component.tsx',
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
-        },
-        {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onChange' },
+          data: { path: 'onRefresh', propName: 'onRefresh' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onRefresh', newName: 'onRefreshAction' },
+              output: `
+        'use client';
+
+        declare namespace React {
+          class Component<P = {}, S = {}> {
+            props: Readonly<P>;
+            state: S;
+          }
+        }
+
+        type Props = { onRefreshAction: () => void };
+
+        export default class Dashboard extends React.Component<Props> {}
+      `,
+            },
+          ],
         },
       ],
     },
     {
-      name: 'destructured props with class instance',
+      name: 'Named exported PureComponent through an intermediate class',
       code: `
         'use client';
 
+        declare class PureComponent<P = {}> {
+          props: Readonly<P>;
+        }
+
         class MyClass {}
 
-        export default function Component({
-          instance
-        }: {
-          instance: MyClass
-        }) {
-          return null;
-        }
+        class Base extends PureComponent<{ instance: MyClass }> {}
+
+        export class Panel extends Base {}
       `,
       filename: 'component.tsx',
       errors: [
         {
           messageId: 'invalidProp',
-          data: { propName: 'instance' },
+          data: {
+            path: 'instance',
+            reason: 'it is an instance of class "MyClass"',
+          },
         },
       ],
     },
     {
-      name: 'destructured props with mixed valid and invalid',
+      name: 'Class expression component',
       code: `
         'use client';
 
-        export default function Component({
-          name,
-          submitAction,
-          onClick
-        }: {
-          name: string;
-          submitAction: () => void;
-          onClick: () => void
-        }) {
-          return null;
+        declare class Component<P = {}> {
+          props: Readonly<P>;
         }
+
+        export const Widget = class extends Component<{ onClick: () => void }> {};
       `,
       filename: 'component.tsx',
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use client';
+
+        declare class Component<P = {}> {
+          props: Readonly<P>;
+        }
+
+        export const Widget = class extends Component<{ onClickAction: () => void }> {};
+      `,
+            },
+          ],
         },
       ],
     },
-    // Intersection types with functions should be detected
     {
-      name: 'Intersection type with function component',
+      name: 'Type-driven detection of class components',
       code: `
         'use client';
 
-        type WithMeta = { meta: string };
-        type Handler = () => void;
+        import type { CardProps } from './tests/fixtures/types';
 
-        export default function Component(props: {
-          callback: Handler & WithMeta;
-        }) {
-          return null;
+        declare class Component<P = {}> {
+          props: Readonly<P>;
         }
+
+        class Card extends Component<CardProps> {}
+
+        export { Card };
       `,
       filename: 'component.tsx',
+      options: [{ exportDetection: 'type' }],
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'callback' },
+          messageId: 'externalInvalidProp',
+          data: {
+            path: 'session',
+            location: 'tests/fixtures/types.ts:12',
+            reason: 'it is an instance of class "Session"',
+          },
+          line: 10,
+          column: 38,
         },
       ],
     },
+    // Directive prologue
     {
-      name: 'Intersection type with class should be detected',
+      name: 'use client directive after use strict',
       code: `
+        'use strict';
         'use client';
 
-        class MyClass {}
-        type WithId = { id: string };
-
-        export default function Component(props: {
-          instance: MyClass & WithId;
-        }) {
+        export default function Component(props: { onClick: () => void }) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'invalidProp',
-          data: { propName: 'instance' },
+          messageId: 'functionNotServerAction',
+          data: { path: 'onClick', propName: 'onClick' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onClick', newName: 'onClickAction' },
+              output: `
+        'use strict';
+        'use client';
+
+        export default function Component(props: { onClickAction: () => void }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Union types with invalid components should be detected
+    // Rename suggestions
     {
-      name: 'Union type with function should be detected',
+      name: 'rename suggestion updates usages in the file',
       code: `
         'use client';
 
-        export default function Component(props: {
-          callback: string | (() => void);
-        }) {
-          return null;
+        interface FormProps {
+          onSubmit: (data: FormData) => void;
+          label: string;
+        }
+
+        export function Form(props: FormProps) {
+          return <form action={props.onSubmit}>{props.label}</form>;
+        }
+
+        export function Page({ onSubmit, label }: FormProps) {
+          const defaults: Partial<FormProps> = { onSubmit };
+          return <Form onSubmit={defaults.onSubmit ?? onSubmit} label={label} />;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'callback' },
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          line: 5,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        interface FormProps {
+          onSubmitAction: (data: FormData) => void;
+          label: string;
+        }
+
+        export function Form(props: FormProps) {
+          return <form action={props.onSubmitAction}>{props.label}</form>;
+        }
+
+        export function Page({ onSubmitAction: onSubmit, label }: FormProps) {
+          const defaults: Partial<FormProps> = { onSubmitAction: onSubmit };
+          return <Form onSubmitAction={defaults.onSubmitAction ?? onSubmit} label={label} />;
+        }
+      `,
+            },
+          ],
+        },
+        {
+          messageId: 'functionNotServerAction',
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          line: 5,
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        interface FormProps {
+          onSubmitAction: (data: FormData) => void;
+          label: string;
+        }
+
+        export function Form(props: FormProps) {
+          return <form action={props.onSubmitAction}>{props.label}</form>;
+        }
+
+        export function Page({ onSubmitAction: onSubmit, label }: FormProps) {
+          const defaults: Partial<FormProps> = { onSubmitAction: onSubmit };
+          return <Form onSubmitAction={defaults.onSubmitAction ?? onSubmit} label={label} />;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
     {
-      name: 'Union type with class should be detected',
+      name: 'rename suggestion keeps renamed bindings',
       code: `
         'use client';
 
-        class MyClass {}
-
-        export default function Component(props: {
-          value: string | MyClass;
-        }) {
-          return null;
+        export function Form({ onSubmit: submit }: { onSubmit: () => void }) {
+          return <button onClick={submit} />;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'invalidProp',
-          data: { propName: 'value' },
+          messageId: 'functionNotServerAction',
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          suggestions: [
+            {
+              messageId: 'renameToAction',
+              data: { propName: 'onSubmit', newName: 'onSubmitAction' },
+              output: `
+        'use client';
+
+        export function Form({ onSubmitAction: submit }: { onSubmitAction: () => void }) {
+          return <button onClick={submit} />;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Optional invalid props should still be detected
     {
-      name: 'Optional non-action function prop',
+      name: 'no rename suggestion when the new name is taken',
       code: `
         'use client';
 
-        export default function Component(props: {
-          onClick?: () => void;
+        export function Form(props: {
+          onSubmit: () => void;
+          onSubmitAction: () => Promise<void>;
         }) {
           return null;
         }
@@ -1020,85 +3524,184 @@ ruleTester.run('props-must-be-serializable', propsMustBeSerializable, {
       errors: [
         {
           messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          data: { path: 'onSubmit', propName: 'onSubmit' },
+          suggestions: [],
         },
       ],
     },
     {
-      name: 'Mixed optional required with invalid prop',
+      name: 'replace suggestion for class instances',
       code: `
         'use client';
 
-        export default function Component(props: {
-          name: string;
-          submitAction?: () => void;
-          onClick: () => void;
-        }) {
+        class User {
+          #password = '';
+          private token = '';
+          protected role = 'user';
+          static count = 0;
+          name = '';
+          onChange = () => {};
+
+          constructor(public readonly id: string, email: string) {}
+
+          greet() {
+            return this.name;
+          }
+        }
+
+        export default function Component(props: { user?: User | null }) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
+          messageId: 'invalidProp',
+          data: {
+            path: 'user',
+            reason: 'it is an instance of class "User"',
+          },
+          suggestions: [
+            {
+              messageId: 'replaceType',
+              data: {
+                typeName: 'User',
+                replacement: "Pick<User, 'name' | 'id'>",
+              },
+              output: `
+        'use client';
+
+        class User {
+          #password = '';
+          private token = '';
+          protected role = 'user';
+          static count = 0;
+          name = '';
+          onChange = () => {};
+
+          constructor(public readonly id: string, email: string) {}
+
+          greet() {
+            return this.name;
+          }
+        }
+
+        export default function Component(props: { user?: Pick<User, 'name' | 'id'> | null }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Complex union types - reports first invalid type found
     {
-      name: 'Complex union with multiple invalid types',
+      name: 'replace suggestion for generic class instances',
       code: `
         'use client';
 
-        class MyClass {}
+        class Box<T> {
+          constructor(public value: T) {}
+        }
 
-        export default function Component(props: {
-          value: string | (() => void) | MyClass;
-        }) {
+        export default function Component(props: { box: Box<string> }) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'value' },
+          messageId: 'invalidProp',
+          data: {
+            path: 'box',
+            reason: 'it is an instance of class "Box"',
+          },
+          suggestions: [
+            {
+              messageId: 'replaceType',
+              data: {
+                typeName: 'Box',
+                replacement: "Pick<Box<string>, 'value'>",
+              },
+              output: `
+        'use client';
+
+        class Box<T> {
+          constructor(public value: T) {}
+        }
+
+        export default function Component(props: { box: Pick<Box<string>, 'value'> }) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
       ],
     },
-    // Multiple props with various issues
     {
-      name: 'Multiple props with mixed issues',
+      name: 'replace suggestion for URLSearchParams',
       code: `
         'use client';
 
-        class CustomClass {}
+        interface Props {
+          query: URLSearchParams | undefined;
+        }
 
-        export default function Component(props: {
-          name: string;
-          onClick: () => void;
-          submitAction: () => void;
-          instance: CustomClass;
-          onChange?: (val: string) => void;
-          data: Date;
-        }) {
+        export default function Component(props: Props) {
           return null;
         }
       `,
       filename: 'component.tsx',
       errors: [
-        {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onClick' },
-        },
         {
           messageId: 'invalidProp',
-          data: { propName: 'instance' },
+          data: {
+            path: 'query',
+            reason:
+              'it is an instance of the non-serializable built-in "URLSearchParams"',
+          },
+          suggestions: [
+            {
+              messageId: 'replaceType',
+              data: {
+                typeName: 'URLSearchParams',
+                replacement: 'Record<string, string>',
+              },
+              output: `
+        'use client';
+
+        interface Props {
+          query: Record<string, string> | undefined;
+        }
+
+        export default function Component(props: Props) {
+          return null;
+        }
+      `,
+            },
+          ],
         },
+      ],
+    },
+    {
+      name: 'no replace suggestion for nested values',
+      code: `
+        'use client';
+
+        export default function Component(props: { links: URL[] }) {
+          return null;
+        }
+      `,
+      filename: 'component.tsx',
+      errors: [
         {
-          messageId: 'functionNotServerAction',
-          data: { propName: 'onChange' },
+          messageId: 'invalidProp',
+          data: {
+            path: 'links[number]',
+            reason: 'it is an instance of the non-serializable built-in "URL"',
+          },
+          suggestions: [],
         },
       ],
     },
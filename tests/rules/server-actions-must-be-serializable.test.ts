@@ -0,0 +1,276 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { serverActionsMustBeSerializable } from '../../src/rules/server-actions-must-be-serializable';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run(
+  'server-actions-must-be-serializable',
+  serverActionsMustBeSerializable,
+  {
+    valid: [
+      {
+        name: 'serializable arguments and return value',
+        code: `
+          'use server';
+
+          export async function save(id: string, data: { name: string; tags: string[] }) {
+            return { id, saved: true, at: new Date() };
+          }
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'FormData argument',
+        code: `
+          'use server';
+
+          export async function submit(previous: { message: string }, data: FormData) {
+            return { message: String(data.get('name')) };
+          }
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'void return value',
+        code: `
+          'use server';
+
+          export const remove = async (id: string): Promise<void> => {};
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'functions that are not exported from a use server module',
+        code: `
+          'use server';
+
+          function format(date: Date, locale: Intl.Locale) {
+            return () => date.toLocaleString(locale.baseName);
+          }
+
+          export async function now() {
+            return format(new Date(), new Intl.Locale('en'))();
+          }
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'functions outside of use server modules',
+        code: `
+          export async function load(callback: () => void) {
+            return callback;
+          }
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'inline Server Action with serializable types',
+        code: `
+          export default function Page() {
+            async function publish(data: FormData) {
+              'use server';
+              return data.get('id') as string;
+            }
+            return publish;
+          }
+        `,
+        filename: 'page.tsx',
+      },
+      {
+        name: 'Server Action returned by a Server Action',
+        code: `
+          'use server';
+
+          async function undo(id: string) {
+            'use server';
+          }
+
+          export async function remove(id: string) {
+            return { undo };
+          }
+        `,
+        filename: 'actions.ts',
+      },
+      {
+        name: 'configured serializable type',
+        code: `
+          'use server';
+
+          class Money {
+            constructor(public amount: number) {}
+          }
+
+          export async function price(): Promise<Money> {
+            return new Money(1);
+          }
+        `,
+        filename: 'actions.ts',
+        options: [{ serializableTypes: ['Money'] }],
+      },
+    ],
+
+    invalid: [
+      {
+        name: 'function argument',
+        code: `
+          'use server';
+
+          export async function save(id: string, onDone: () => void) {}
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'functionParameter',
+            data: { path: 'onDone' },
+            line: 4,
+            column: 50,
+          },
+        ],
+      },
+      {
+        name: 'class instance nested in an argument',
+        code: `
+          'use server';
+
+          class User {
+            name = 'Ada';
+          }
+
+          export async function save(data: { user: User }) {}
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'invalidParameter',
+            data: {
+              path: 'data.user',
+              reason: 'it is an instance of class "User"',
+            },
+          },
+        ],
+      },
+      {
+        name: 'destructured argument',
+        code: `
+          'use server';
+
+          export async function save({ url }: { url: URL }) {}
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'invalidParameter',
+            data: {
+              path: 'arguments[0].url',
+              reason:
+                'it is an instance of the non-serializable built-in "URL"',
+            },
+          },
+        ],
+      },
+      {
+        name: 'awaited return value',
+        code: `
+          'use server';
+
+          class Session {
+            token = '';
+          }
+
+          export async function login(data: FormData): Promise<{ session: Session }> {
+            return { session: new Session() };
+          }
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'invalidReturn',
+            data: {
+              path: '<return>.session',
+              reason: 'it is an instance of class "Session"',
+            },
+            line: 8,
+          },
+        ],
+      },
+      {
+        name: 'function returned by an exported arrow function',
+        code: `
+          'use server';
+
+          const load = async () => ({ refresh: () => {} });
+
+          export { load };
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'functionReturn',
+            data: { path: '<return>.refresh' },
+            line: 4,
+          },
+        ],
+      },
+      {
+        name: 'inline Server Action with a function argument',
+        code: `
+          export default function Page() {
+            async function publish(id: string, log: (message: string) => void) {
+              'use server';
+            }
+            return publish;
+          }
+        `,
+        filename: 'page.tsx',
+        errors: [{ messageId: 'functionParameter', data: { path: 'log' } }],
+      },
+      {
+        name: 'inline Server Action in a use server module is reported once',
+        code: `
+          'use server';
+
+          export async function save(callback: () => void) {
+            'use server';
+          }
+        `,
+        filename: 'actions.ts',
+        errors: [
+          { messageId: 'functionParameter', data: { path: 'callback' } },
+        ],
+      },
+      {
+        name: 'default export',
+        code: `
+          'use server';
+
+          export default async function (element: HTMLElement) {}
+        `,
+        filename: 'actions.ts',
+        errors: [
+          {
+            messageId: 'invalidParameter',
+            data: {
+              path: 'element',
+              reason:
+                'it is an instance of the non-serializable built-in "HTMLElement"',
+            },
+          },
+        ],
+      },
+    ],
+  }
+);
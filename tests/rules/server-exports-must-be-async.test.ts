@@ -0,0 +1,216 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { serverExportsMustBeAsync } from '../../src/rules/server-exports-must-be-async';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('server-exports-must-be-async', serverExportsMustBeAsync, {
+  valid: [
+    {
+      name: 'async function declarations and expressions',
+      code: `
+        'use server';
+
+        export async function save(data: FormData) {}
+
+        export const remove = async (id: string) => {};
+
+        export default async function () {}
+      `,
+      filename: 'actions.ts',
+    },
+    {
+      name: 'function returning a Promise',
+      code: `
+        'use server';
+
+        async function load() {
+          return 1;
+        }
+
+        export function refresh(): Promise<number> {
+          return load();
+        }
+      `,
+      filename: 'actions.ts',
+    },
+    {
+      name: 'exported specifiers and default export of async functions',
+      code: `
+        'use server';
+
+        async function save() {}
+
+        export { save, save as persist };
+        export default save;
+      `,
+      filename: 'actions.ts',
+    },
+    {
+      name: 're-exports of a use server module',
+      code: `
+        'use server';
+
+        export * from './tests/fixtures/actions';
+        export { save as submit } from './tests/fixtures/actions';
+      `,
+      filename: 'actions.ts',
+    },
+    {
+      name: 'type exports',
+      code: `
+        'use server';
+
+        export type State = { message: string };
+        export interface Result {
+          ok: boolean;
+        }
+      `,
+      filename: 'actions.ts',
+    },
+    {
+      name: 'without use server directive',
+      code: `
+        export const limit = 10;
+
+        export function format(value: number) {
+          return String(value);
+        }
+      `,
+      filename: 'actions.ts',
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'function that is not async',
+      code: `
+        'use server';
+
+        export function save(data: FormData) {}
+      `,
+      filename: 'actions.ts',
+      errors: [
+        {
+          messageId: 'syncFunction',
+          data: { name: 'save' },
+          line: 4,
+          column: 25,
+        },
+      ],
+    },
+    {
+      name: 'constant',
+      code: `
+        'use server';
+
+        export const limit = 10;
+      `,
+      filename: 'actions.ts',
+      errors: [{ messageId: 'valueExport', data: { name: 'limit' } }],
+    },
+    {
+      name: 'object of actions',
+      code: `
+        'use server';
+
+        export const actions = {
+          async save() {},
+        };
+      `,
+      filename: 'actions.ts',
+      errors: [{ messageId: 'valueExport', data: { name: 'actions' } }],
+    },
+    {
+      name: 'class',
+      code: `
+        'use server';
+
+        export class Repository {}
+      `,
+      filename: 'actions.ts',
+      errors: [{ messageId: 'classExport', data: { name: 'Repository' } }],
+    },
+    {
+      name: 'exported specifier',
+      code: `
+        'use server';
+
+        const format = (value: number) => String(value);
+
+        export { format };
+      `,
+      filename: 'actions.ts',
+      errors: [
+        { messageId: 'syncFunction', data: { name: 'format' }, line: 4 },
+      ],
+    },
+    {
+      name: 'default export of an arrow function',
+      code: `
+        'use server';
+
+        export default () => {};
+      `,
+      filename: 'actions.ts',
+      errors: [{ messageId: 'syncFunction', data: { name: 'default' } }],
+    },
+    {
+      name: 'default export of a constant',
+      code: `
+        'use server';
+
+        const config = { retries: 3 };
+
+        export default config;
+      `,
+      filename: 'actions.ts',
+      errors: [
+        {
+          messageId: 'valueExport',
+          data: { name: 'default' },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: 're-export of a module that is not a use server module',
+      code: `
+        'use server';
+
+        export * from './tests/fixtures/helpers';
+      `,
+      filename: 'actions.ts',
+      errors: [
+        {
+          messageId: 'syncFunction',
+          data: { name: 'formatDate' },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: 'named re-export',
+      code: `
+        'use server';
+
+        export { formatDate } from './tests/fixtures/helpers';
+      `,
+      filename: 'actions.ts',
+      errors: [{ messageId: 'syncFunction', data: { name: 'formatDate' } }],
+    },
+  ],
+});
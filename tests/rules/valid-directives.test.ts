@@ -0,0 +1,231 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { validDirectives } from '../../src/rules/valid-directives';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester();
+
+ruleTester.run('valid-directives', validDirectives, {
+  valid: [
+    {
+      name: 'use client directive',
+      code: `
+        'use client';
+
+        export default function Component() {
+          return null;
+        }
+      `,
+    },
+    {
+      name: 'use client directive after use strict',
+      code: `
+        'use strict';
+        "use client";
+
+        import { useState } from 'react';
+      `,
+    },
+    {
+      name: 'use server directive in a function body',
+      code: `
+        export async function save() {
+          'use server';
+          return null;
+        }
+      `,
+    },
+    {
+      name: 'use cache variants',
+      code: `
+        'use cache: remote';
+
+        export async function getData() {
+          'use cache';
+          return null;
+        }
+      `,
+    },
+    {
+      name: 'unrelated strings',
+      code: `
+        const mode = 'use client';
+        'use the client';
+      `,
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'misspelled use client',
+      code: `'use-client';
+
+export default function Component() {
+  return null;
+}
+`,
+      output: `'use client';
+
+export default function Component() {
+  return null;
+}
+`,
+      errors: [
+        {
+          messageId: 'misspelledDirective',
+          data: { actual: 'use-client', expected: 'use client' },
+        },
+      ],
+    },
+    {
+      name: 'misspelled use client with double quotes and extra space',
+      code: `"use  client"
+import { useState } from 'react';
+`,
+      output: `"use client";
+import { useState } from 'react';
+`,
+      errors: [
+        {
+          messageId: 'misspelledDirective',
+          data: { actual: 'use  client', expected: 'use client' },
+        },
+      ],
+    },
+    {
+      name: 'use client after an import',
+      code: `import { useState } from 'react';
+'use client';
+
+export default function Component() {
+  return null;
+}
+`,
+      output: `'use client';
+import { useState } from 'react';
+
+export default function Component() {
+  return null;
+}
+`,
+      errors: [
+        {
+          messageId: 'misplacedDirective',
+          data: { directive: 'use client', scope: 'file' },
+        },
+      ],
+    },
+    {
+      name: 'use client after an import and a comment',
+      code: `import { useState } from 'react';
+// keep me
+'use client';
+
+export default function Component() {
+  return null;
+}
+`,
+      output: `'use client';
+import { useState } from 'react';
+// keep me
+
+export default function Component() {
+  return null;
+}
+`,
+      errors: [
+        {
+          messageId: 'misplacedDirective',
+          data: { directive: 'use client', scope: 'file' },
+        },
+      ],
+    },
+    {
+      name: 'misplaced use client already in the prologue',
+      code: `'use client';
+import { useState } from 'react';
+'use  client';
+`,
+      output: `'use client';
+import { useState } from 'react';
+`,
+      errors: [
+        {
+          messageId: 'misplacedDirective',
+          data: { directive: 'use client', scope: 'file' },
+        },
+      ],
+    },
+    {
+      name: 'misplaced use server in a one-line function body',
+      code: `export async function save() { const id = 1; 'use server'; return id; }
+`,
+      output: `export async function save() { 'use server'; const id = 1; return id; }
+`,
+      errors: [
+        {
+          messageId: 'misplacedDirective',
+          data: { directive: 'use server', scope: 'function' },
+        },
+      ],
+    },
+    {
+      name: 'misspelled and misplaced use server in a function body',
+      code: `export async function save() {
+  const id = 1;
+  'Use Server';
+  return id;
+}
+`,
+      output: `export async function save() {
+  'use server';
+  const id = 1;
+  return id;
+}
+`,
+      errors: [
+        {
+          messageId: 'misplacedDirective',
+          data: { directive: 'use server', scope: 'function' },
+        },
+      ],
+    },
+    {
+      name: 'misspelled use cache in a function body',
+      code: `export async function getData() {
+  'use_cache';
+  return null;
+}
+`,
+      output: `export async function getData() {
+  'use cache';
+  return null;
+}
+`,
+      errors: [
+        {
+          messageId: 'misspelledDirective',
+          data: { actual: 'use_cache', expected: 'use cache' },
+        },
+      ],
+    },
+    {
+      name: 'use client in a function body',
+      code: `
+        export function Component() {
+          'use client';
+          return null;
+        }
+      `,
+      errors: [
+        {
+          messageId: 'moduleOnlyDirective',
+          data: { directive: 'use client' },
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,257 @@
+import { RuleTester } from '@typescript-eslint/rule-tester';
+import { validUseCacheFunctions } from '../../src/rules/valid-use-cache-functions';
+import { afterAll, describe, it } from 'vitest';
+
+RuleTester.afterAll = afterAll;
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+  languageOptions: {
+    parserOptions: {
+      projectService: {
+        allowDefaultProject: ['*.ts*', 'app/*.ts*', 'app/*/*.ts*'],
+      },
+      tsconfigRootDir: process.cwd(),
+    },
+  },
+});
+
+ruleTester.run('valid-use-cache-functions', validUseCacheFunctions, {
+  valid: [
+    {
+      name: 'serializable arguments and return value',
+      code: `
+        export async function getProduct(id: string, options: { locale: string }) {
+          'use cache';
+          return { id, name: 'Product', updatedAt: new Date() };
+        }
+      `,
+      filename: 'data.ts',
+    },
+    {
+      name: 'exports of a use cache module',
+      code: `
+        'use cache';
+
+        export async function getProducts(ids: string[]) {
+          return ids.map(id => ({ id }));
+        }
+
+        export const getCategory = async (slug: string) => ({ slug });
+      `,
+      filename: 'data.ts',
+    },
+    {
+      name: 'functions without use cache',
+      code: `
+        import { cookies } from 'next/headers';
+
+        export async function getSession(callback: () => void) {
+          const session = (await cookies()).get('session');
+          return () => session;
+        }
+      `,
+      filename: 'data.ts',
+    },
+    {
+      name: 'request APIs read outside of the cached function',
+      code: `
+        import { cookies } from 'next/headers';
+
+        async function getCart(sessionId: string | undefined) {
+          'use cache';
+          return { sessionId, items: [] };
+        }
+
+        export async function Cart() {
+          const sessionId = (await cookies()).get('session')?.value;
+          return getCart(sessionId);
+        }
+      `,
+      filename: 'cart.ts',
+    },
+    {
+      name: 'request APIs in a private cache',
+      code: `
+        import { cookies } from 'next/headers';
+
+        export async function getPreferences() {
+          'use cache: private';
+          return { theme: (await cookies()).get('theme')?.value };
+        }
+      `,
+      filename: 'data.ts',
+    },
+    {
+      name: 'functions named like request APIs',
+      code: `
+        'use cache';
+
+        function cookies() {
+          return [];
+        }
+
+        const headers = () => ({ accept: 'text/html' });
+
+        export async function getData() {
+          return { cookies: cookies(), headers: headers() };
+        }
+      `,
+      filename: 'data.ts',
+    },
+    {
+      name: 'test files are ignored by default',
+      code: `
+        async function getData(callback: () => void) {
+          'use cache';
+          return callback;
+        }
+      `,
+      filename: 'data.test.ts',
+    },
+  ],
+
+  invalid: [
+    {
+      name: 'non-serializable arguments',
+      code: `
+        export async function getReport(
+          format: (value: number) => string,
+          { url }: { url: URL }
+        ) {
+          'use cache';
+          return { total: format(42), host: url.host };
+        }
+      `,
+      filename: 'data.ts',
+      errors: [
+        {
+          messageId: 'functionParameter',
+          data: { path: 'format' },
+          line: 3,
+        },
+        {
+          messageId: 'invalidParameter',
+          data: {
+            path: 'arguments[1].url',
+            reason: 'it is an instance of the non-serializable built-in "URL"',
+          },
+          line: 4,
+        },
+      ],
+    },
+    {
+      name: 'non-serializable return values',
+      code: `
+        class Connection {
+          query() {}
+        }
+
+        export const connect = async (): Promise<Connection> => {
+          'use cache';
+          return new Connection();
+        };
+
+        export async function getFormatter() {
+          'use cache';
+          return { format: (value: number) => String(value) };
+        }
+      `,
+      filename: 'data.ts',
+      errors: [
+        {
+          messageId: 'invalidReturn',
+          data: {
+            path: '<return>',
+            reason: 'it is an instance of class "Connection"',
+          },
+          line: 6,
+        },
+        {
+          messageId: 'functionReturn',
+          data: { path: '<return>.format' },
+          line: 11,
+        },
+      ],
+    },
+    {
+      name: 'exports of a use cache module',
+      code: `
+        'use cache';
+
+        export async function getProducts(filter: (id: string) => boolean) {
+          return [];
+        }
+
+        export default async function getEndpoint() {
+          return new URL('https://example.com');
+        }
+      `,
+      filename: 'data.ts',
+      errors: [
+        {
+          messageId: 'functionParameter',
+          data: { path: 'filter' },
+          line: 4,
+        },
+        {
+          messageId: 'invalidReturn',
+          data: {
+            path: '<return>',
+            reason: 'it is an instance of the non-serializable built-in "URL"',
+          },
+          line: 8,
+        },
+      ],
+    },
+    {
+      name: 'request APIs in a cached function',
+      code: `
+        import { cookies, headers as getHeaders } from 'next/headers';
+
+        export async function getUser() {
+          'use cache';
+          const token = (await cookies()).get('token');
+          const agent = (await getHeaders()).get('user-agent');
+          return { token: token?.value, agent };
+        }
+      `,
+      filename: 'data.ts',
+      errors: [
+        {
+          messageId: 'requestApi',
+          data: { name: 'cookies' },
+          line: 6,
+          column: 32,
+        },
+        {
+          messageId: 'requestApi',
+          data: { name: 'headers' },
+          line: 7,
+        },
+      ],
+    },
+    {
+      name: 'request APIs in a use cache module and in nested functions',
+      code: `
+        'use cache: remote';
+
+        import * as nextHeaders from 'next/headers';
+
+        export async function getLocale() {
+          const read = async () => (await nextHeaders.headers()).get('accept-language');
+          return read();
+        }
+      `,
+      filename: 'data.ts',
+      errors: [
+        {
+          messageId: 'requestApi',
+          data: { name: 'headers' },
+          line: 7,
+        },
+      ],
+    },
+  ],
+});